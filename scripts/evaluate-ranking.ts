@@ -0,0 +1,86 @@
+/**
+ * Measures ranking quality against the golden queries in ranking-golden.json.
+ *
+ *   pnpm eval:ranking
+ *   pnpm eval:ranking --weights '{"compound": 0.5}'
+ *   pnpm eval:ranking --dictionary data/jmdict-eng-common.json --verbose
+ *
+ * Reports precision at 1 and mean reciprocal rank over the top 10 results. Queries whose
+ * expected readings are missing from the loaded dictionary are skipped, not counted as misses.
+ */
+import { readFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { parseArgs } from 'util';
+import { EnglishToKatakanaConverter, DEFAULT_RANKING_WEIGHTS, type RankingWeights, type SearchMode } from '../src/index.js';
+
+interface GoldenQuery {
+  query: string;
+  expected: string[];   // Any of these katakana spellings counts as the right answer
+  mode?: SearchMode;    // Default: normal
+  fuzzy?: boolean;
+}
+
+const RESULT_DEPTH = 10;
+
+const { values } = parseArgs({
+  options: {
+    weights: { type: 'string' },
+    dictionary: { type: 'string' },
+    golden: { type: 'string' },
+    verbose: { type: 'boolean', default: false }
+  }
+});
+
+const goldenPath = values.golden ?? join(dirname(fileURLToPath(import.meta.url)), 'ranking-golden.json');
+const golden = JSON.parse(readFileSync(goldenPath, 'utf-8')) as GoldenQuery[];
+const rankingWeights = values.weights ? JSON.parse(values.weights) as Partial<RankingWeights> : undefined;
+
+const converter = new EnglishToKatakanaConverter({
+  ...(values.dictionary && { dictionaryPath: values.dictionary }),
+  rankingWeights
+});
+await converter.initialize();
+
+let evaluated = 0;
+let hits = 0;
+let reciprocalRankSum = 0;
+
+for (const { query, expected, mode = 'normal', fuzzy = false } of golden) {
+  if (!(await isInDictionary(expected))) {
+    if (values.verbose) console.log(`skip  ${query} (${expected.join(', ')} not in the dictionary)`);
+    continue;
+  }
+
+  const results = await converter.convert(query, { mode, fuzzy, maxResults: RESULT_DEPTH, transliterate: 'off' });
+  const rank = results.findIndex(result => expected.includes(result.katakana)) + 1;
+
+  evaluated++;
+  if (rank === 1) hits++;
+  if (rank > 0) reciprocalRankSum += 1 / rank;
+
+  if (values.verbose || rank !== 1) {
+    const top = results.slice(0, 3).map(result => `${result.katakana} (${result.score})`).join(', ');
+    console.log(`${rank === 1 ? 'ok  ' : 'MISS'}  ${query} → rank ${rank || '-'}; top: ${top || 'none'}`);
+  }
+}
+
+console.log();
+console.log(`Weights: ${JSON.stringify({ ...DEFAULT_RANKING_WEIGHTS, ...rankingWeights })}`);
+console.log(`Queries: ${evaluated} of ${golden.length} (others not in the dictionary)`);
+if (evaluated > 0) {
+  console.log(`P@1:     ${(hits / evaluated).toFixed(3)}`);
+  console.log(`MRR@${RESULT_DEPTH}:  ${(reciprocalRankSum / evaluated).toFixed(3)}`);
+}
+
+/**
+ * Whether any expected spelling is a reading in the loaded dictionary
+ */
+async function isInDictionary(expected: string[]): Promise<boolean> {
+  for (const reading of expected) {
+    if ((await converter.reverse(reading, { maxResults: 1 })).length > 0) {
+      return true;
+    }
+  }
+  return false;
+}
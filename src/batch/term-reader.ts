@@ -0,0 +1,153 @@
+import { readFileSync } from 'fs';
+import { extname } from 'path';
+
+export interface TermReaderOptions {
+  column?: string;      // 1-based column number or header name
+  delimiter?: string;   // Field delimiter for CSV/TSV input
+  header?: boolean;     // Whether the first row is a header row
+}
+
+/**
+ * Reads lists of terms from plain text, CSV or TSV input
+ */
+export class TermReader {
+  /**
+   * Read terms from a file, or from stdin when no file (or "-") is given
+   */
+  static async read(source: string | undefined, options: TermReaderOptions = {}): Promise<string[]> {
+    if (!source || source === '-') {
+      if (process.stdin.isTTY) {
+        throw new Error('No input file given and nothing piped to stdin');
+      }
+      return this.parse(await this.readStdin(), options);
+    }
+
+    const content = readFileSync(source, 'utf-8');
+    const delimiter = options.delimiter ?? this.delimiterForFile(source);
+    return this.parse(content, { ...options, delimiter });
+  }
+
+  /**
+   * Parse terms from raw content, one per line or from a column of delimited rows
+   */
+  static parse(content: string, options: TermReaderOptions = {}): string[] {
+    const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+
+    // Plain word list: one term per line
+    if (!options.delimiter && !options.column) {
+      return lines.map(line => line.trim()).filter(line => line.length > 0);
+    }
+
+    const delimiter = this.unescapeDelimiter(options.delimiter ?? ',');
+    const rows = this.splitRows(content.replace(/^\uFEFF/, ''), delimiter);
+
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const column = options.column ?? '1';
+    let columnIndex: number;
+    let dataRows = rows;
+
+    if (/^\d+$/.test(column)) {
+      columnIndex = parseInt(column) - 1;
+      if (columnIndex < 0) {
+        throw new Error(`Invalid column "${column}". Columns are numbered from 1`);
+      }
+      if (options.header) {
+        dataRows = rows.slice(1);
+      }
+    } else {
+      // Named column: the first row is always the header
+      const headerRow = rows[0].map(cell => cell.trim().toLowerCase());
+      columnIndex = headerRow.indexOf(column.trim().toLowerCase());
+      if (columnIndex === -1) {
+        throw new Error(`Column "${column}" not found in header: ${rows[0].join(', ')}`);
+      }
+      dataRows = rows.slice(1);
+    }
+
+    return dataRows
+      .map(row => (row[columnIndex] ?? '').trim())
+      .filter(term => term.length > 0);
+  }
+
+  /**
+   * Split delimited content into rows of cells, honouring double-quoted fields, which
+   * may span line breaks. Blank lines are skipped.
+   */
+  static splitRows(content: string, delimiter: string): string[][] {
+    const rows: string[][] = [];
+    let cells: string[] = [];
+    let current = '';
+    let inQuotes = false;
+    let quoted = false;     // The current row has a quoted cell, so it is not blank
+
+    const endRow = () => {
+      cells.push(current);
+      if (quoted || cells.length > 1 || cells[0].trim().length > 0) {
+        rows.push(cells);
+      }
+      cells = [];
+      current = '';
+      quoted = false;
+    };
+
+    for (let i = 0; i < content.length; i++) {
+      const char = content[i];
+
+      if (inQuotes) {
+        if (char === '"' && content[i + 1] === '"') {
+          current += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          current += char;
+        }
+      } else if (char === '"' && current.trim().length === 0) {
+        current = '';
+        inQuotes = true;
+        quoted = true;
+      } else if (content.startsWith(delimiter, i)) {
+        cells.push(current);
+        current = '';
+        i += delimiter.length - 1;
+      } else if (char === '\n' || (char === '\r' && content[i + 1] === '\n')) {
+        if (char === '\r') i++;
+        endRow();
+      } else {
+        current += char;
+      }
+    }
+
+    if (current.length > 0 || cells.length > 0 || quoted) {
+      endRow();
+    }
+    return rows;
+  }
+
+  private static delimiterForFile(path: string): string | undefined {
+    switch (extname(path).toLowerCase()) {
+      case '.csv':
+        return ',';
+      case '.tsv':
+      case '.tab':
+        return '\t';
+      default:
+        return undefined;
+    }
+  }
+
+  private static unescapeDelimiter(delimiter: string): string {
+    return delimiter === '\\t' || delimiter === 'tab' ? '\t' : delimiter;
+  }
+
+  private static async readStdin(): Promise<string> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of process.stdin) {
+      chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks).toString('utf-8');
+  }
+}
@@ -0,0 +1,855 @@
+#!/usr/bin/env node
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { EnglishToKatakanaConverter } from './converter.js';
+import { TermReader } from './batch/term-reader.js';
+import { OutputFormatter, type OutputFormat } from './output/formatter.js';
+import { printFormatted, printMatches, printPhraseResult, printResults, printReverseResult } from './output/printer.js';
+import { JapaneseConverter } from './utils/japanese-converter.js';
+import { LanguageNames } from './utils/language-names.js';
+import { KatakanaStyle } from './utils/katakana-style.js';
+import { consoleLogger } from './utils/logger.js';
+import { CONFIG_KEYS, UserConfig } from './config/user-config.js';
+import { InteractiveSession } from './interactive/session.js';
+import { ApiServer } from './server/api-server.js';
+import { PHRASE_JOINERS } from './search/phrase-segmenter.js';
+import { ResultFilter } from './search/result-filter.js';
+import { Glossary } from './glossary/glossary.js';
+import { ResourceFormats } from './i18n/resource-formats.js';
+import { type KatakanaStyleRule, type PhraseJoiner, type RomajiStyle, type SearchMode, type SearchOptions, type TextWidth } from './types.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// Read version from package.json
+const packageJson = JSON.parse(readFileSync(join(__dirname, '../package.json'), 'utf-8'));
+
+// User defaults from the config file and EN_KA_* environment variables
+const config = UserConfig.load();
+const dataDir = UserConfig.getDataDir(config);
+const glossaryPath = UserConfig.getGlossaryPath(config);
+
+const program = new Command();
+
+program
+  .name('en-ka')
+  .description('English to Katakana converter using JMDict')
+  .version(packageJson.version)
+  .enablePositionalOptions();
+
+program
+  .argument('[word]', 'English word or phrase to convert (omit on a terminal for interactive mode)')
+  .option('--mode <mode>', 'Search mode: strict (exact), normal (compound), broad (all)', config.mode)
+  .option('--fuzzy', 'Enable fuzzy search for approximate matches', config.fuzzy)
+  .option('--no-fuzzy', 'Disable fuzzy search when enabled in the config')
+  .option('-v, --verbose', 'Show detailed information including romaji and meaning', config.verbose)
+  .option('--no-verbose', 'Disable verbose output when enabled in the config')
+  .option('-m, --max <number>', 'Maximum number of results', String(config.max))
+  .option('-f, --format <format>', 'Output format: text, json, ndjson, tsv, csv', config.format)
+  .option('--transliterate', 'Generate katakana from English spelling rules instead of searching the dictionary')
+  .option('--romaji-style <style>', 'Romanization: hepburn, hepburn-doubled, kunrei, nihon', config.romajiStyle)
+  .option('-p, --phrase', 'Convert a multi-word phrase part by part, preferring the longest dictionary phrases')
+  .option('--explain', 'Show which gloss and sense each result matched and how its score was computed')
+  .option('--names', 'Also search proper names: places, people, companies (install with: en-ka update --names)')
+  .option('--joiner <joiner>', 'Separator between phrase parts: nakaguro (・), space', config.joiner)
+  .option('--style <rules>', 'Katakana style guide rules, comma-separated: microsoft, jis, no-vu', config.style.join(','))
+  .option('--width <width>', 'Katakana width: standard, half (ｺﾝﾋﾟｭｰﾀｰ), full (full-width letters and digits too)', config.width)
+  .option('--origin <language>', 'Only words from this source language, as a code or name (eng, ger, French)')
+  .option('--no-wasei', 'Leave out wasei-eigo and other Japanese coinages')
+  .option('--common-only', 'Only readings marked common')
+  .option('--pos <tags>', 'Only entries with these parts of speech, comma-separated (n, adj-na, vs)')
+  .option('--field <tags>', 'Only entries from these fields, comma-separated (comp, med, sports)')
+  .option('--exclude-misc <tags>', 'Leave out senses with these usage tags, comma-separated (arch, obs, sl)')
+  .action(async (word: string | undefined, options) => {
+    if (word === undefined) {
+      if (!process.stdin.isTTY || !process.stdout.isTTY) {
+        program.error("error: missing required argument 'word'");
+      }
+      await startInteractive(options);
+      return;
+    }
+
+    try {
+      const searchMode = parseSearchMode(options.mode);
+      const format = parseOutputFormat(options.format);
+      const romajiStyle = parseRomajiStyle(options.romajiStyle);
+      const joiner = parsePhraseJoiner(options.joiner);
+      const style = parseKatakanaStyle(options.style);
+      const width = parseTextWidth(options.width);
+      const filters = parseFilters(options);
+      const converter = createConverter();
+
+      if (format === 'text') {
+        console.log(chalk.blue('Loading dictionary...'));
+      }
+      await converter.initialize();
+
+      const results = await converter.convert(word, {
+        mode: searchMode,
+        fuzzy: options.fuzzy === true, // fuzzy is false by default, enabled with --fuzzy
+        verbose: options.verbose,
+        maxResults: parseInt(options.max),
+        transliterate: options.transliterate ? 'force' : 'fallback',
+        romajiStyle,
+        phrase: options.phrase,
+        joiner,
+        style,
+        width,
+        explain: options.explain,
+        names: options.names,
+        ...filters
+      });
+
+      if (format !== 'text') {
+        printFormatted(OutputFormatter.formatResults(word, results, format));
+        return;
+      }
+
+      if (options.phrase) {
+        if (results.length === 0) {
+          console.log(chalk.red(`Could not convert "${word}"`));
+          return;
+        }
+        console.log(chalk.green(`\nPhrase "${word}":\n`));
+        printPhraseResult(results[0], options.verbose);
+        return;
+      }
+
+      const generatedOnly = results.length > 0 && results.every(result => result.source === 'generated');
+
+      if (results.length === 0 || (generatedOnly && !options.transliterate)) {
+        console.log(chalk.red(`No results found for "${word}"`));
+
+        if (generatedOnly) {
+          console.log(chalk.yellow('\nBest guess from English spelling (not in the dictionary):\n'));
+          printResults(results, options.verbose, options.explain);
+        }
+
+        if (ResultFilter.isActive(filters)) {
+          console.log(chalk.yellow('\nMatches may be hidden by the result filters (--origin, --pos, --common-only, ...).'));
+        }
+
+        // Suggest trying different modes if in strict mode
+        if (searchMode === 'strict') {
+          console.log(chalk.yellow('\nTry different search modes:'));
+          console.log(chalk.gray(`  en-ka ${word} --mode normal   # Include compound words`));
+          console.log(chalk.gray(`  en-ka ${word} --mode broad    # Include all related terms`));
+          console.log(chalk.gray(`  en-ka ${word} --fuzzy         # Enable fuzzy matching`));
+        } else if (searchMode === 'normal') {
+          console.log(chalk.yellow('\nTry broader search:'));
+          console.log(chalk.gray(`  en-ka ${word} --mode broad    # Include all related terms`));
+          console.log(chalk.gray(`  en-ka ${word} --fuzzy         # Enable fuzzy matching`));
+        } else {
+          console.log(chalk.yellow('\nTry fuzzy search:'));
+          console.log(chalk.gray(`  en-ka ${word} --fuzzy         # Enable fuzzy matching`));
+        }
+
+        // Show corrections of the whole word, then dictionary words it starts
+        const corrections = await converter.didYouMean(word);
+        if (corrections.length > 0) {
+          console.log(chalk.cyan(`\nDid you mean: ${corrections.map(correction => chalk.white(correction)).join(', ')}?`));
+        }
+        const suggestions = (await converter.searchSuggestions(word, 5 + corrections.length))
+          .filter(suggestion => suggestion !== word.toLowerCase() && !corrections.includes(suggestion))
+          .slice(0, 5);
+        if (suggestions.length > 0) {
+          console.log(chalk.cyan('\nSuggestions:'));
+          suggestions.forEach(suggestion => {
+            console.log(chalk.gray(`  ${suggestion}`));
+          });
+        }
+        return;
+      }
+
+      printMatches(word, results, options.verbose, options.explain);
+
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('update')
+  .description('Update dictionary data')
+  .option('--force', 'Force download even if data exists')
+  .option('--from <file>', 'Install from a local .zip or .json file instead of downloading')
+  .option('--url <url>', 'Download from a mirror URL (.zip or .json) instead of GitHub')
+  .option('--sha256 <hash>', 'Expected SHA-256 checksum of the downloaded or local file')
+  .option('--allow-unverified', 'Install a download that has no checksum to verify against')
+  .option('--names', 'Install the JMnedict proper-name dictionary instead of JMDict')
+  .action(async (options) => {
+    try {
+      if (options.from && options.url) {
+        console.error(chalk.red('Use either --from or --url, not both'));
+        process.exit(1);
+      }
+
+      if (options.names) {
+        console.log(chalk.blue('Updating name dictionary...'));
+        const { installJMDict } = await import('./dictionary/downloader.js');
+        const manifest = await installJMDict({
+          from: options.from,
+          url: options.url,
+          sha256: options.sha256,
+          allowUnverified: options.allowUnverified,
+          dataset: 'jmnedict',
+          dataDir,
+          logger: consoleLogger
+        });
+        console.log(chalk.gray(`Installed ${manifest.entryCount} names`));
+
+        // Index the names now so the first --names lookup is fast
+        await createConverter().initializeNames();
+        console.log(chalk.green('Name dictionary updated successfully!'));
+        return;
+      }
+
+      console.log(chalk.blue('Updating dictionary...'));
+
+      if (options.from || options.url || options.sha256 || options.allowUnverified) {
+        const { installJMDict } = await import('./dictionary/downloader.js');
+        const manifest = await installJMDict({
+          from: options.from,
+          url: options.url,
+          sha256: options.sha256,
+          allowUnverified: options.allowUnverified,
+          dataDir,
+          logger: consoleLogger
+        });
+        const version = manifest.version ? ` (version ${manifest.version}, ${manifest.dictDate})` : '';
+        console.log(chalk.gray(`Installed ${manifest.entryCount} entries${version}`));
+      } else if (options.force) {
+        // Force re-download if requested
+        const { downloadJMDict } = await import('./dictionary/downloader.js');
+        await downloadJMDict({ force: true, dataDir, logger: consoleLogger });
+      }
+
+      // Always rebuild the precompiled index
+      const { IndexCache } = await import('./dictionary/index-cache.js');
+      new IndexCache(dataDir).clear();
+
+      const converter = createConverter();
+      await converter.initialize();
+      console.log(chalk.green('Dictionary updated successfully!'));
+    } catch (error) {
+      console.error(chalk.red('Update failed:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('batch [file]')
+  .description('Convert many terms from a file or stdin (one per line, or a CSV/TSV column)')
+  .option('--mode <mode>', 'Search mode: strict (exact), normal (compound), broad (all)', config.mode)
+  .option('--fuzzy', 'Enable fuzzy search for approximate matches', config.fuzzy)
+  .option('--no-fuzzy', 'Disable fuzzy search when enabled in the config')
+  .option('-m, --max <number>', 'Maximum number of results per term', String(config.max))
+  .option('-c, --column <column>', 'Column number (from 1) or header name to read terms from')
+  .option('-d, --delimiter <char>', 'Field delimiter for delimited input (default: by file extension)')
+  .option('--header', 'Skip the header row of delimited input')
+  .option('-f, --format <format>', 'Output format: text (one row per term), json, ndjson, tsv, csv', config.format)
+  .option('--romaji-style <style>', 'Romanization: hepburn, hepburn-doubled, kunrei, nihon', config.romajiStyle)
+  .option('-p, --phrase', 'Convert each term as a multi-word phrase')
+  .option('--names', 'Also search proper names (install with: en-ka update --names)')
+  .option('--joiner <joiner>', 'Separator between phrase parts: nakaguro (・), space', config.joiner)
+  .option('--style <rules>', 'Katakana style guide rules, comma-separated: microsoft, jis, no-vu', config.style.join(','))
+  .option('--width <width>', 'Katakana width: standard, half (ｺﾝﾋﾟｭｰﾀｰ), full (full-width letters and digits too)', config.width)
+  .option('--origin <language>', 'Only words from this source language, as a code or name (eng, ger, French)')
+  .option('--no-wasei', 'Leave out wasei-eigo and other Japanese coinages')
+  .option('--common-only', 'Only readings marked common')
+  .option('--pos <tags>', 'Only entries with these parts of speech, comma-separated (n, adj-na, vs)')
+  .option('--field <tags>', 'Only entries from these fields, comma-separated (comp, med, sports)')
+  .option('--exclude-misc <tags>', 'Leave out senses with these usage tags, comma-separated (arch, obs, sl)')
+  .option('-o, --output <file>', 'Write results to a file instead of stdout')
+  .action(async (file: string | undefined, options) => {
+    try {
+      const searchMode = parseSearchMode(options.mode);
+      const format = parseOutputFormat(options.format);
+      const romajiStyle = parseRomajiStyle(options.romajiStyle);
+      const joiner = parsePhraseJoiner(options.joiner);
+      const style = parseKatakanaStyle(options.style);
+      const width = parseTextWidth(options.width);
+      const filters = parseFilters(options);
+      const terms = await TermReader.read(file, {
+        column: options.column,
+        delimiter: options.delimiter,
+        header: options.header
+      });
+
+      if (terms.length === 0) {
+        console.error(chalk.yellow('No terms found in input'));
+        return;
+      }
+
+      const converter = createConverter();
+
+      // Keep stdout for result rows only
+      console.error(chalk.blue('Loading dictionary...'));
+      await converter.initialize();
+
+      const batchResults = await converter.convertBatch(terms, {
+        mode: searchMode,
+        fuzzy: options.fuzzy === true,
+        maxResults: parseInt(options.max),
+        romajiStyle,
+        phrase: options.phrase,
+        joiner,
+        style,
+        width,
+        names: options.names,
+        ...filters
+      });
+
+      const output = OutputFormatter.formatBatch(batchResults, format);
+      if (options.output) {
+        writeFileSync(options.output, output + '\n');
+      } else {
+        printFormatted(output);
+      }
+
+      const missing = batchResults.filter(batchResult =>
+        batchResult.results.every(result => result.source === 'generated')
+      ).length;
+      console.error(chalk.green(`Converted ${batchResults.length} terms (${missing} not in the dictionary)`));
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('reverse <kana>')
+  .description('Look up English meanings of a katakana or hiragana word')
+  .option('--mode <mode>', 'Search mode: strict (exact), normal (compound), broad (all)', config.mode)
+  .option('--fuzzy', 'Enable fuzzy search for approximate readings', config.fuzzy)
+  .option('--no-fuzzy', 'Disable fuzzy search when enabled in the config')
+  .option('-m, --max <number>', 'Maximum number of results', String(config.max))
+  .option('-f, --format <format>', 'Output format: text, json, ndjson, tsv, csv', config.format)
+  .option('--romaji-style <style>', 'Romanization: hepburn, hepburn-doubled, kunrei, nihon', config.romajiStyle)
+  .action(async (kana: string, options) => {
+    try {
+      const searchMode = parseSearchMode(options.mode);
+      const format = parseOutputFormat(options.format);
+      const romajiStyle = parseRomajiStyle(options.romajiStyle);
+      const converter = createConverter();
+
+      if (format === 'text') {
+        console.log(chalk.blue('Loading dictionary...'));
+      }
+      await converter.initialize();
+
+      const results = await converter.reverse(kana, {
+        mode: searchMode,
+        fuzzy: options.fuzzy === true,
+        maxResults: parseInt(options.max),
+        romajiStyle
+      });
+
+      if (format !== 'text') {
+        printFormatted(OutputFormatter.formatReverseResults(kana, results, format));
+        return;
+      }
+
+      if (results.length === 0) {
+        console.log(chalk.red(`No entries found for "${kana}"`));
+        if (searchMode !== 'broad' || !options.fuzzy) {
+          console.log(chalk.yellow('\nTry a wider search:'));
+          console.log(chalk.gray(`  en-ka reverse ${kana} --mode normal   # Include compound words`));
+          console.log(chalk.gray(`  en-ka reverse ${kana} --fuzzy         # Enable fuzzy matching`));
+        }
+        return;
+      }
+
+      console.log(chalk.green(`\nEnglish for "${kana}":\n`));
+      results.forEach((result, index) => printReverseResult(result, index + 1));
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('lint <files...>')
+  .description('Check katakana spelling consistency across Japanese text, Markdown and locale files')
+  .option('--style <rules>', 'Also require these katakana style guide rules: microsoft, jis, no-vu', config.style.join(','))
+  .option('-f, --format <format>', 'Output format: text, json', 'text')
+  .action(async (files: string[], options) => {
+    try {
+      if (!['text', 'json'].includes(options.format)) {
+        console.error(chalk.red(`Invalid format "${options.format}". Valid formats are: text, json`));
+        process.exit(1);
+      }
+      const converter = createConverter();
+      await converter.initialize();
+
+      const issues = await converter.lintFiles(files, { style: parseKatakanaStyle(options.style) });
+
+      if (options.format === 'json') {
+        printFormatted(JSON.stringify({ files: files.length, issues }, null, 2));
+      } else if (issues.length === 0) {
+        console.log(chalk.green(`No katakana spelling issues in ${files.length} ${files.length === 1 ? 'file' : 'files'}`));
+      } else {
+        for (const issue of issues) {
+          console.log(`${chalk.gray(`${issue.file}:${issue.line}:${issue.column}`)}  ${chalk.red(issue.word)} → ${chalk.green(issue.suggestion)}  ${chalk.gray(`${issue.message} (${issue.kind})`)}`);
+        }
+        console.log(chalk.yellow(`\n${issues.length} ${issues.length === 1 ? 'issue' : 'issues'} in ${new Set(issues.map(issue => issue.file)).size} of ${files.length} files`));
+      }
+
+      process.exitCode = issues.length > 0 ? 1 : 0;
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+      process.exit(2);
+    }
+  });
+
+program
+  .command('i18n <file>')
+  .description('Convert the terms in an i18n resource file (JSON, YAML, PO, XLIFF) to katakana')
+  .option('-o, --output <file>', 'Write the converted file here instead of stdout')
+  .option('--max-words <number>', 'Leave messages with more words untouched', '4')
+  .option('--joiner <joiner>', 'Separator between phrase parts: nakaguro (・), space', config.joiner)
+  .option('--style <rules>', 'Katakana style guide rules, comma-separated: microsoft, jis, no-vu', config.style.join(','))
+  .option('--width <width>', 'Katakana width: standard, half (ｺﾝﾋﾟｭｰﾀｰ), full (full-width letters and digits too)', config.width)
+  .option('--report <file>', 'Write every message with its status to a JSON file')
+  .action(async (file: string, options) => {
+    try {
+      const format = ResourceFormats.formatForFile(file);
+      if (!format) {
+        console.error(chalk.red(`Unknown resource format for "${file}". Use a .json, .yaml, .yml, .po, .pot, .xlf or .xliff file`));
+        process.exit(1);
+      }
+      const maxWords = parseInt(options.maxWords);
+      if (isNaN(maxWords) || maxWords < 1) {
+        console.error(chalk.red(`Invalid word limit "${options.maxWords}"`));
+        process.exit(1);
+      }
+      const translatorOptions = {
+        maxWords,
+        joiner: parsePhraseJoiner(options.joiner),
+        style: parseKatakanaStyle(options.style),
+        width: parseTextWidth(options.width)
+      };
+      const content = readFileSync(file, 'utf-8');
+      const converter = createConverter();
+
+      // Keep stdout for the converted file only
+      console.error(chalk.blue('Loading dictionary...'));
+      await converter.initialize();
+
+      const { content: translated, entries } = await converter.translateResource(content, format, translatorOptions);
+
+      if (options.output) {
+        writeFileSync(options.output, translated);
+      } else {
+        process.stdout.write(translated);
+      }
+      if (options.report) {
+        writeFileSync(options.report, JSON.stringify(entries, null, 2) + '\n');
+      }
+
+      const count = (status: string) => entries.filter(entry => entry.status === status).length;
+      console.error(chalk.green(`Converted ${count('converted')} of ${entries.length} messages (${count('review')} to review, ${count('untouched')} left in English)`));
+      for (const entry of entries.filter(entry => entry.status === 'review' || entry.status === 'untouched')) {
+        const label = entry.status === 'review' ? chalk.yellow('review   ') : chalk.gray('untouched');
+        console.error(`  ${label} ${entry.key}  ${chalk.gray(entry.reason ?? '')}`);
+      }
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('romaji <kana>')
+  .description('Romanize a katakana or hiragana word')
+  .option('-s, --style <style>', 'Romanization: hepburn, hepburn-doubled, kunrei, nihon', config.romajiStyle)
+  .option('-a, --all', 'Show the word in every romanization system')
+  .action((kana: string, options) => {
+    if (!JapaneseConverter.isKana(kana.replace(/・/g, ''))) {
+      console.error(chalk.red(`"${kana}" is not katakana or hiragana`));
+      process.exit(1);
+    }
+
+    if (options.all) {
+      for (const style of JapaneseConverter.ROMAJI_STYLES) {
+        console.log(`${chalk.gray(style.padEnd(16))} ${JapaneseConverter.katakanaToRomaji(kana, style)}`);
+      }
+      return;
+    }
+
+    console.log(JapaneseConverter.katakanaToRomaji(kana, parseRomajiStyle(options.style)));
+  });
+
+program
+  .command('suggest <partial>')
+  .description('Complete a partial word, best ranked first, and suggest corrections for typos')
+  .option('-m, --max <number>', 'Maximum number of completions', '10')
+  .option('-f, --format <format>', 'Output format: text, json, ndjson, tsv, csv', config.format)
+  .action(async (partial: string, options) => {
+    try {
+      const format = parseOutputFormat(options.format);
+      const converter = createConverter();
+      await converter.initialize();
+
+      const suggestions = await converter.searchSuggestions(partial, parseInt(options.max));
+      // Corrections only help when nothing in the dictionary starts with the input
+      const didYouMean = suggestions.length === 0 ? await converter.didYouMean(partial) : [];
+
+      if (format !== 'text') {
+        printFormatted(OutputFormatter.formatSuggestions(partial, suggestions, format, didYouMean));
+        return;
+      }
+
+      if (didYouMean.length > 0) {
+        console.log(chalk.yellow(`No suggestions found for "${partial}"`));
+        console.log(chalk.cyan(`Did you mean: ${didYouMean.map(correction => chalk.white(correction)).join(', ')}?`));
+        return;
+      }
+      if (suggestions.length === 0) {
+        console.log(chalk.yellow(`No suggestions found for "${partial}"`));
+        return;
+      }
+
+      console.log(chalk.cyan(`Suggestions for "${partial}":\n`));
+      suggestions.forEach((suggestion, index) => {
+        console.log(chalk.white(`${index + 1}. ${suggestion}`));
+      });
+
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('interactive')
+  .alias('i')
+  .description('Look up words one after another with the dictionary kept in memory')
+  .option('--mode <mode>', 'Search mode: strict (exact), normal (compound), broad (all)', config.mode)
+  .option('--fuzzy', 'Enable fuzzy search for approximate matches', config.fuzzy)
+  .option('--no-fuzzy', 'Disable fuzzy search when enabled in the config')
+  .option('-v, --verbose', 'Show detailed information including romaji and meaning', config.verbose)
+  .option('--no-verbose', 'Disable verbose output when enabled in the config')
+  .option('-m, --max <number>', 'Maximum number of results', String(config.max))
+  .option('--romaji-style <style>', 'Romanization: hepburn, hepburn-doubled, kunrei, nihon', config.romajiStyle)
+  .option('-p, --phrase', 'Convert multi-word input as phrases')
+  .option('--joiner <joiner>', 'Separator between phrase parts: nakaguro (・), space', config.joiner)
+  .option('--style <rules>', 'Katakana style guide rules, comma-separated: microsoft, jis, no-vu', config.style.join(','))
+  .action(startInteractive);
+
+program
+  .command('serve')
+  .description('Serve conversions over a local HTTP JSON API')
+  .option('--port <port>', 'Port to listen on', '8080')
+  .option('--host <host>', 'Address to bind to', '127.0.0.1')
+  .option('--mode <mode>', 'Default search mode for requests', config.mode)
+  .option('--fuzzy', 'Enable fuzzy search by default', config.fuzzy)
+  .option('-m, --max <number>', 'Default maximum number of results', String(config.max))
+  .option('--romaji-style <style>', 'Default romanization: hepburn, hepburn-doubled, kunrei, nihon', config.romajiStyle)
+  .option('--style <rules>', 'Default katakana style guide rules: microsoft, jis, no-vu', config.style.join(','))
+  .option('--width <width>', 'Default katakana width: standard, half, full', config.width)
+  .action(async (options) => {
+    try {
+      const port = parseInt(options.port);
+      if (!Number.isInteger(port) || port < 0 || port > 65535) {
+        console.error(chalk.red(`Invalid port "${options.port}"`));
+        process.exit(1);
+      }
+
+      const converter = createConverter();
+      console.error(chalk.blue('Loading dictionary...'));
+      await converter.initialize();
+
+      const { readManifest } = await import('./dictionary/downloader.js');
+      const server = new ApiServer(converter, {
+        port,
+        host: options.host,
+        defaults: {
+          mode: parseSearchMode(options.mode),
+          fuzzy: options.fuzzy === true,
+          maxResults: parseInt(options.max),
+          romajiStyle: parseRomajiStyle(options.romajiStyle),
+          joiner: config.joiner,
+          style: parseKatakanaStyle(options.style),
+          width: parseTextWidth(options.width)
+        },
+        manifest: readManifest(dataDir),
+        logger: consoleLogger
+      });
+
+      const address = await server.listen();
+      console.error(chalk.green(`Listening on ${address}`));
+      console.error(chalk.gray('Endpoints: GET /convert?q=, GET /reverse?q=, GET /suggest?q=, POST /batch, GET /health'));
+
+      const shutdown = () => {
+        server.close().then(() => process.exit(0), () => process.exit(1));
+      };
+      process.once('SIGINT', shutdown);
+      process.once('SIGTERM', shutdown);
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+const configCommand = program
+  .command('config')
+  .description(`Show or change default options (stored in ${UserConfig.getConfigPath()})`);
+
+configCommand
+  .command('list')
+  .description('Show every setting with its effective value and source')
+  .action(() => {
+    console.log(chalk.gray(`Config file: ${UserConfig.getConfigPath()}\n`));
+    for (const { key, value, source } of UserConfig.list()) {
+      const origin = source === 'default' ? chalk.gray('(default)') : chalk.cyan(`(${source})`);
+      console.log(`${key.padEnd(12)} ${formatConfigValue(value)} ${origin}`);
+    }
+  });
+
+configCommand
+  .command('get <key>')
+  .description(`Print the effective value of a setting: ${CONFIG_KEYS.join(', ')}`)
+  .action((key: string) => {
+    try {
+      const configKey = UserConfig.parseKey(key);
+      console.log(configKey === 'dataDir' ? dataDir : configKey === 'glossary' ? glossaryPath : formatConfigValue(config[configKey]));
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+configCommand
+  .command('set <key> <value>')
+  .description('Save a default in the config file')
+  .action((key: string, value: string) => {
+    try {
+      const saved = UserConfig.set(key, value);
+      console.log(chalk.green(`${UserConfig.parseKey(key)} = ${saved}`));
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+configCommand
+  .command('unset <key>')
+  .description('Remove a setting from the config file, restoring its default')
+  .action((key: string) => {
+    try {
+      UserConfig.unset(key);
+      console.log(chalk.green(`${UserConfig.parseKey(key)} reset to default`));
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+const glossaryCommand = program
+  .command('glossary')
+  .description('Manage the team glossary of preferred katakana spellings')
+  .option('--file <file>', 'Glossary file (.json, .yaml or .yml)', glossaryPath);
+
+glossaryCommand
+  .command('list')
+  .description('Show every glossary entry')
+  .action(() => {
+    try {
+      const glossary = openGlossary();
+      const entries = glossary.load();
+      if (entries.length === 0) {
+        console.log(chalk.yellow(`No glossary entries in ${glossary.getPath()}`));
+        return;
+      }
+
+      console.log(chalk.gray(`Glossary: ${glossary.getPath()}\n`));
+      for (const entry of entries) {
+        console.log(`${chalk.white(entry.english)} → ${chalk.magenta(entry.katakana)}`);
+        if (entry.preferredOver) {
+          console.log(`   ${chalk.gray('Preferred over:')} ${entry.preferredOver.join(', ')}`);
+        }
+        if (entry.note) {
+          console.log(`   ${chalk.gray('Note:')} ${entry.note}`);
+        }
+      }
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+glossaryCommand
+  .command('add <english> <katakana>')
+  .description('Add an entry, or update the note and rules of an existing one')
+  .option('--note <note>', 'Note shown with the result, e.g. a style guide reference')
+  .option('--prefer-over <spellings>', 'Comma-separated spellings this one replaces, e.g. サーバ')
+  .action((english: string, katakana: string, options) => {
+    try {
+      const glossary = openGlossary();
+      const updated = glossary.add({
+        english,
+        katakana,
+        ...(options.note && { note: options.note }),
+        ...(options.preferOver && { preferredOver: String(options.preferOver).split(',').filter(spelling => spelling.trim().length > 0) })
+      });
+      console.log(chalk.green(`${updated ? 'Updated' : 'Added'} ${english} → ${katakana} in ${glossary.getPath()}`));
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+glossaryCommand
+  .command('remove <english> [katakana]')
+  .description('Remove the entries for an English term, or only one spelling of it')
+  .action((english: string, katakana: string | undefined) => {
+    try {
+      const glossary = openGlossary();
+      const removed = glossary.remove(english, katakana);
+      if (removed === 0) {
+        console.error(chalk.yellow(`No glossary entry for "${english}"${katakana ? ` → ${katakana}` : ''}`));
+        process.exit(1);
+      }
+      console.log(chalk.green(`Removed ${removed} ${removed === 1 ? 'entry' : 'entries'} from ${glossary.getPath()}`));
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+glossaryCommand
+  .command('import <file>')
+  .description('Merge entries from a JSON, YAML, CSV or TSV file (english, katakana, note columns)')
+  .action((file: string) => {
+    try {
+      const glossary = openGlossary();
+      const { added, updated } = glossary.import(file);
+      console.log(chalk.green(`Imported ${added} new and ${updated} updated entries into ${glossary.getPath()}`));
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+function openGlossary(): Glossary {
+  return new Glossary(glossaryCommand.opts().file);
+}
+
+/**
+ * Lists such as style print as "microsoft,no-vu", or "none" when empty
+ */
+function formatConfigValue(value: unknown): string {
+  return Array.isArray(value) ? value.join(',') || 'none' : String(value);
+}
+
+function createConverter(): EnglishToKatakanaConverter {
+  return new EnglishToKatakanaConverter({ dataDir, logger: consoleLogger, glossary: new Glossary(glossaryPath).load() });
+}
+
+async function startInteractive(options: Record<string, string | boolean | undefined>): Promise<void> {
+  try {
+    const settings = {
+      mode: parseSearchMode(String(options.mode)),
+      fuzzy: options.fuzzy === true,
+      verbose: options.verbose === true,
+      maxResults: parseInt(String(options.max)),
+      romajiStyle: parseRomajiStyle(String(options.romajiStyle)),
+      phrase: options.phrase === true,
+      joiner: parsePhraseJoiner(String(options.joiner)),
+      style: parseKatakanaStyle(String(options.style))
+    };
+    const converter = createConverter();
+
+    console.log(chalk.blue('Loading dictionary...'));
+    await converter.initialize();
+
+    await new InteractiveSession(converter, settings).start();
+  } catch (error) {
+    console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+function parseSearchMode(mode: string): SearchMode {
+  const validModes: SearchMode[] = ['strict', 'normal', 'broad'];
+  if (!validModes.includes(mode as SearchMode)) {
+    console.error(chalk.red(`Invalid mode "${mode}". Valid modes are: strict, normal, broad`));
+    process.exit(1);
+  }
+  return mode as SearchMode;
+}
+
+function parseRomajiStyle(style: string): RomajiStyle {
+  if (!JapaneseConverter.ROMAJI_STYLES.includes(style as RomajiStyle)) {
+    console.error(chalk.red(`Invalid romaji style "${style}". Valid styles are: ${JapaneseConverter.ROMAJI_STYLES.join(', ')}`));
+    process.exit(1);
+  }
+  return style as RomajiStyle;
+}
+
+function parsePhraseJoiner(joiner: string): PhraseJoiner {
+  if (!PHRASE_JOINERS.includes(joiner as PhraseJoiner)) {
+    console.error(chalk.red(`Invalid joiner "${joiner}". Valid joiners are: ${PHRASE_JOINERS.join(', ')}`));
+    process.exit(1);
+  }
+  return joiner as PhraseJoiner;
+}
+
+function parseTextWidth(width: string): TextWidth {
+  if (!JapaneseConverter.TEXT_WIDTHS.includes(width as TextWidth)) {
+    console.error(chalk.red(`Invalid width "${width}". Valid widths are: ${JapaneseConverter.TEXT_WIDTHS.join(', ')}`));
+    process.exit(1);
+  }
+  return width as TextWidth;
+}
+
+function parseKatakanaStyle(rules: string): KatakanaStyleRule[] {
+  try {
+    return KatakanaStyle.parse(rules);
+  } catch (error) {
+    console.error(chalk.red(error instanceof Error ? error.message : error));
+    process.exit(1);
+  }
+}
+
+/**
+ * Result filter options shared by the root and batch commands
+ */
+function parseFilters(options: Record<string, string | boolean | undefined>): SearchOptions {
+  return {
+    origin: parseOrigin(options.origin as string | undefined),
+    wasei: options.wasei !== false,
+    commonOnly: options.commonOnly === true,
+    ...(typeof options.pos === 'string' && { partOfSpeech: ResultFilter.parseTags(options.pos) }),
+    ...(typeof options.field === 'string' && { field: ResultFilter.parseTags(options.field) }),
+    ...(typeof options.excludeMisc === 'string' && { excludeMisc: ResultFilter.parseTags(options.excludeMisc) })
+  };
+}
+
+function parseOrigin(language: string | undefined): string | undefined {
+  if (language === undefined) {
+    return undefined;
+  }
+  const code = LanguageNames.toCode(language);
+  if (!code) {
+    console.error(chalk.red(`Unknown language "${language}". Use a three-letter code such as eng, ger or fre`));
+    process.exit(1);
+  }
+  return code;
+}
+
+function parseOutputFormat(format: string): OutputFormat {
+  if (!OutputFormatter.isOutputFormat(format)) {
+    console.error(chalk.red(`Invalid format "${format}". Valid formats are: text, json, ndjson, tsv, csv`));
+    process.exit(1);
+  }
+  return format;
+}
+
+program.parse();
\ No newline at end of file
@@ -0,0 +1,259 @@
+import { existsSync, readFileSync } from 'fs';
+import { homedir } from 'os';
+import { dirname, join, resolve } from 'path';
+import { OUTPUT_FORMATS, type OutputFormat } from '../output/formatter.js';
+import { JapaneseConverter } from '../utils/japanese-converter.js';
+import { KatakanaStyle } from '../utils/katakana-style.js';
+import { writeFileAtomic } from '../utils/atomic-write.js';
+import { getDefaultDataDir } from '../dictionary/downloader.js';
+import { PHRASE_JOINERS } from '../search/phrase-segmenter.js';
+import { type KatakanaStyleRule, type PhraseJoiner, type RomajiStyle, type SearchMode, type TextWidth } from '../types.js';
+
+// Glossary files picked up from the working directory when none is configured
+const GLOSSARY_FILE_NAMES = ['en-ka-glossary.json', 'en-ka-glossary.yaml', 'en-ka-glossary.yml'];
+
+const SEARCH_MODES: SearchMode[] = ['strict', 'normal', 'broad'];
+
+export interface EnKaConfig {
+  mode: SearchMode;
+  max: number;
+  fuzzy: boolean;
+  verbose: boolean;
+  format: OutputFormat;
+  romajiStyle: RomajiStyle;
+  joiner: PhraseJoiner;
+  style: KatakanaStyleRule[];
+  width: TextWidth;
+  dataDir?: string;
+  glossary?: string;
+}
+
+export type ConfigKey = keyof EnKaConfig;
+
+export type ConfigSource = 'default' | 'file' | 'env';
+
+const DEFAULT_CONFIG: EnKaConfig = {
+  mode: 'strict',
+  max: 10,
+  fuzzy: false,
+  verbose: false,
+  format: 'text',
+  romajiStyle: 'hepburn',
+  joiner: 'nakaguro',
+  style: [],
+  width: 'standard'
+};
+
+export const CONFIG_KEYS: ConfigKey[] = ['mode', 'max', 'fuzzy', 'verbose', 'format', 'romajiStyle', 'joiner', 'style', 'width', 'dataDir', 'glossary'];
+
+// Environment variables take precedence over the config file
+const ENV_VARIABLES: Record<ConfigKey, string> = {
+  mode: 'EN_KA_MODE',
+  max: 'EN_KA_MAX',
+  fuzzy: 'EN_KA_FUZZY',
+  verbose: 'EN_KA_VERBOSE',
+  format: 'EN_KA_FORMAT',
+  romajiStyle: 'EN_KA_ROMAJI_STYLE',
+  joiner: 'EN_KA_JOINER',
+  style: 'EN_KA_STYLE',
+  width: 'EN_KA_WIDTH',
+  dataDir: 'EN_KA_DATA_DIR',
+  glossary: 'EN_KA_GLOSSARY'
+};
+
+/**
+ * User defaults stored in ~/.config/en-ka/config.json, overridable with EN_KA_* variables
+ */
+export class UserConfig {
+  /**
+   * Location of the config file; EN_KA_CONFIG points to a different file
+   */
+  static getConfigPath(): string {
+    if (process.env.EN_KA_CONFIG) {
+      return resolve(process.env.EN_KA_CONFIG);
+    }
+
+    const configHome = process.platform === 'win32'
+      ? process.env.APPDATA ?? join(homedir(), 'AppData', 'Roaming')
+      : process.env.XDG_CONFIG_HOME ?? join(homedir(), '.config');
+    return join(configHome, 'en-ka', 'config.json');
+  }
+
+  /**
+   * Interactive mode history is kept next to the config file
+   */
+  static getHistoryPath(): string {
+    return join(dirname(this.getConfigPath()), 'history');
+  }
+
+  /**
+   * Effective configuration: defaults, then the config file, then the environment.
+   * Invalid values are reported and ignored so a bad setting never blocks the CLI.
+   */
+  static load(): EnKaConfig {
+    const config: EnKaConfig = { ...DEFAULT_CONFIG };
+
+    for (const [key, value] of Object.entries(this.readFile())) {
+      this.apply(config, key, value, this.getConfigPath());
+    }
+
+    for (const key of CONFIG_KEYS) {
+      const value = process.env[ENV_VARIABLES[key]];
+      if (value !== undefined && value !== '') {
+        this.apply(config, key, value, ENV_VARIABLES[key]);
+      }
+    }
+
+    return config;
+  }
+
+  /**
+   * Effective value of every key and where it comes from
+   */
+  static list(): Array<{ key: ConfigKey; value: EnKaConfig[ConfigKey]; source: ConfigSource }> {
+    const config = this.load();
+    const stored = this.readFile();
+
+    return CONFIG_KEYS.map(key => {
+      const envValue = process.env[ENV_VARIABLES[key]];
+      const source: ConfigSource = envValue !== undefined && envValue !== ''
+        ? 'env'
+        : key in stored ? 'file' : 'default';
+      const value = key === 'dataDir' ? this.getDataDir(config)
+        : key === 'glossary' ? this.getGlossaryPath(config)
+          : config[key];
+      return { key, value, source };
+    });
+  }
+
+  /**
+   * Validate a value and store it in the config file
+   */
+  static set(key: string, value: string): EnKaConfig[ConfigKey] {
+    const configKey = this.parseKey(key);
+    const parsed = this.parseValue(configKey, value);
+    this.writeFile({ ...this.readFile(), [configKey]: parsed });
+    return parsed;
+  }
+
+  /**
+   * Remove a key from the config file, restoring its default
+   */
+  static unset(key: string): void {
+    const configKey = this.parseKey(key);
+    const stored = this.readFile();
+    delete stored[configKey];
+    this.writeFile(stored);
+  }
+
+  /**
+   * Accept both camelCase and kebab-case key names, e.g. romajiStyle and romaji-style
+   */
+  static parseKey(key: string): ConfigKey {
+    const normalized = key.replace(/-([a-z])/g, (_, letter: string) => letter.toUpperCase());
+    if (!CONFIG_KEYS.includes(normalized as ConfigKey)) {
+      throw new Error(`Unknown config key "${key}". Valid keys are: ${CONFIG_KEYS.join(', ')}`);
+    }
+    return normalized as ConfigKey;
+  }
+
+  static parseValue(key: ConfigKey, value: unknown): EnKaConfig[ConfigKey] {
+    const text = String(value).trim();
+
+    switch (key) {
+      case 'mode':
+        return this.parseChoice(key, text, SEARCH_MODES);
+      case 'format':
+        return this.parseChoice(key, text, OUTPUT_FORMATS);
+      case 'romajiStyle':
+        return this.parseChoice(key, text, JapaneseConverter.ROMAJI_STYLES);
+      case 'joiner':
+        return this.parseChoice(key, text, PHRASE_JOINERS);
+      case 'width':
+        return this.parseChoice(key, text, JapaneseConverter.TEXT_WIDTHS);
+      case 'style':
+        return Array.isArray(value) ? KatakanaStyle.parse(value.join(',')) : KatakanaStyle.parse(text);
+      case 'max': {
+        const max = Number(text);
+        if (!Number.isInteger(max) || max < 1) {
+          throw new Error(`Invalid value "${text}" for max: expected a positive integer`);
+        }
+        return max;
+      }
+      case 'fuzzy':
+      case 'verbose':
+        if (['true', '1', 'yes', 'on'].includes(text.toLowerCase())) return true;
+        if (['false', '0', 'no', 'off'].includes(text.toLowerCase())) return false;
+        throw new Error(`Invalid value "${text}" for ${key}: expected true or false`);
+      case 'dataDir':
+        if (text.length === 0) {
+          throw new Error('Invalid value for dataDir: expected a directory path');
+        }
+        return resolve(text.replace(/^~(?=$|[\\/])/, homedir()));
+      case 'glossary':
+        if (!/\.(json|ya?ml)$/i.test(text)) {
+          throw new Error(`Invalid value "${text}" for glossary: expected a .json, .yaml or .yml file`);
+        }
+        return resolve(text.replace(/^~(?=$|[\\/])/, homedir()));
+    }
+  }
+
+  /**
+   * Team glossary file: the configured one, else an en-ka-glossary.json, .yaml or .yml
+   * in the working directory. When none exists, the JSON name is where one gets created.
+   */
+  static getGlossaryPath(config: EnKaConfig = this.load()): string {
+    if (config.glossary) {
+      return config.glossary;
+    }
+
+    const candidates = GLOSSARY_FILE_NAMES.map(name => resolve(name));
+    return candidates.find(candidate => existsSync(candidate)) ?? candidates[0];
+  }
+
+  /**
+   * Directory holding the dictionary and its index cache: the configured location, or
+   * the library's default
+   */
+  static getDataDir(config: EnKaConfig = this.load()): string {
+    return config.dataDir ?? getDefaultDataDir();
+  }
+
+  private static apply(config: EnKaConfig, key: string, value: unknown, origin: string): void {
+    try {
+      const configKey = this.parseKey(key);
+      (config as unknown as Record<ConfigKey, unknown>)[configKey] = this.parseValue(configKey, value);
+    } catch (error) {
+      console.error(`Ignoring config from ${origin}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  private static parseChoice<T extends string>(key: ConfigKey, value: string, choices: readonly T[]): T {
+    if (!choices.includes(value as T)) {
+      throw new Error(`Invalid value "${value}" for ${key}. Valid values are: ${choices.join(', ')}`);
+    }
+    return value as T;
+  }
+
+  private static readFile(): Record<string, unknown> {
+    const configPath = this.getConfigPath();
+    if (!existsSync(configPath)) {
+      return {};
+    }
+
+    try {
+      const parsed = JSON.parse(readFileSync(configPath, 'utf-8'));
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        return parsed;
+      }
+    } catch {
+      // Reported below
+    }
+    console.error(`Ignoring config file ${configPath}: expected a JSON object`);
+    return {};
+  }
+
+  private static writeFile(stored: Record<string, unknown>): void {
+    writeFileAtomic(this.getConfigPath(), JSON.stringify(stored, null, 2) + '\n');
+  }
+}
@@ -1,7 +1,26 @@
-import type { ConversionResult, SearchOptions, SearchMode, ScoredResult, IndexedDictionary } from './types.js';
-import { DictionaryLoader } from './dictionary/loader.js';
+import type { ConversionResult, SearchOptions, ScoredResult, IndexedDictionary, BatchResult, ReverseResult, RomajiStyle, PhraseSegment, SearchMode, KatakanaStyleRule } from './types.js';
+import { DictionaryLoader, type DictionaryLoaderOptions } from './dictionary/loader.js';
+import { NameDictionaryLoader, type NameDictionaryLoaderOptions } from './dictionary/name-loader.js';
 import { SearchEngine } from './search/search-engine.js';
 import { ResultProcessor } from './search/result-processor.js';
+import { PhraseSegmenter } from './search/phrase-segmenter.js';
+import { ResultFilter } from './search/result-filter.js';
+import { NameSearch } from './search/name-search.js';
+import { Transliterator } from './utils/transliterator.js';
+import { JapaneseConverter } from './utils/japanese-converter.js';
+import { KatakanaStyle } from './utils/katakana-style.js';
+import { KatakanaLinter, type LintIssue, type LintOptions } from './lint/katakana-linter.js';
+import { I18nTranslator, type I18nTranslatorOptions, type TranslationEntry } from './i18n/i18n-translator.js';
+import { ResourceFormats, type ResourceFormat } from './i18n/resource-formats.js';
+
+/**
+ * Dictionary source (a data directory, a JSON file or preloaded entries),
+ * index caching and where status messages go. The name dictionary shares the data
+ * directory, cache setting and logger unless names overrides them.
+ */
+export type ConverterOptions = DictionaryLoaderOptions & {
+  names?: NameDictionaryLoaderOptions;
+};
 
 /**
  * Main converter class for English to Katakana conversion
@@ -10,9 +29,18 @@ export class EnglishToKatakanaConverter {
   private loader: DictionaryLoader;
   private dictionary: IndexedDictionary | null = null;
   private searchEngine: SearchEngine | null = null;
+  private phraseSegmenter: PhraseSegmenter | null = null;
+  private nameLoader: NameDictionaryLoader;
+  private nameSearch: NameSearch | null = null;
 
-  constructor() {
-    this.loader = new DictionaryLoader();
+  constructor(options: ConverterOptions = {}) {
+    this.loader = new DictionaryLoader(options);
+    this.nameLoader = new NameDictionaryLoader({
+      dataDir: options.dataDir,
+      useCache: options.useCache,
+      logger: options.logger,
+      ...options.names
+    });
   }
 
   /**
@@ -20,7 +48,17 @@ export class EnglishToKatakanaConverter {
    */
   async initialize(): Promise<void> {
     this.dictionary = await this.loader.loadDictionary();
-    this.searchEngine = new SearchEngine(this.dictionary);
+    this.searchEngine = new SearchEngine(this.dictionary, this.loader.getRankingWeights());
+    this.phraseSegmenter = new PhraseSegmenter(this.dictionary);
+  }
+
+  /**
+   * Load the proper-name dictionary now instead of on the first names lookup
+   */
+  async initializeNames(): Promise<void> {
+    if (!this.nameSearch) {
+      this.nameSearch = new NameSearch(await this.nameLoader.loadNames());
+    }
   }
 
   /**
@@ -29,54 +67,235 @@ export class EnglishToKatakanaConverter {
   async convert(englishText: string, options: SearchOptions = {}): Promise<ConversionResult[]> {
     await this.ensureInitialized();
 
+    const results = options.phrase
+      ? await this.convertPhrase(JapaneseConverter.normalizeWidth(englishText), options)
+      : await this.convertWord(JapaneseConverter.normalizeWidth(englishText), options);
+    return ResultProcessor.applyWidth(results, options.width ?? 'standard');
+  }
+
+  /**
+   * Convert a single word or dictionary phrase
+   */
+  private async convertWord(englishText: string, options: SearchOptions): Promise<ConversionResult[]> {
     const {
       mode = 'strict',
       fuzzy: useFuzzy = false,
-      maxResults = 10
+      maxResults = 10,
+      transliterate = 'fallback',
+      romajiStyle = 'hepburn',
+      style = []
     } = options;
     const query = englishText.toLowerCase().trim();
 
+    if (transliterate === 'force') {
+      return this.generateResults(query, romajiStyle, style);
+    }
+
     let scoredResults: ScoredResult[] = [];
 
     // Try scored matches based on mode
-    scoredResults = this.searchEngine!.findScoredMatches(query, mode);
+    scoredResults = ResultFilter.apply(this.searchEngine!.findScoredMatches(query, mode), options);
+
+    // Resolve inflected forms such as "computers" to their base entries
+    if (scoredResults.length === 0) {
+      scoredResults = ResultFilter.apply(this.searchEngine!.findInflectedMatches(query, mode), options);
+    }
 
     // Fall back to fuzzy search if no matches and fuzzy is enabled
     if (scoredResults.length === 0 && useFuzzy) {
-      scoredResults = this.searchEngine!.findFuzzyMatches(query, mode, maxResults);
+      scoredResults = ResultFilter.apply(this.searchEngine!.findFuzzyMatches(query, mode, maxResults), options);
+    }
+
+    // Proper names follow vocabulary; names are never marked common
+    const nameResults = options.names && !options.commonOnly ? await this.findNames(query, mode, romajiStyle) : [];
+
+    // Generate a best-guess rendering when the dictionary has nothing
+    if (scoredResults.length === 0 && nameResults.length === 0 && transliterate === 'fallback') {
+      return this.generateResults(query, romajiStyle, style);
+    }
+
+    if (options.explain) {
+      scoredResults = scoredResults.map(result => this.searchEngine!.explain(result));
     }
 
     // Process scored results into conversion results with proper sorting
-    const results = ResultProcessor.processScoredResults(scoredResults);
-    return results.slice(0, maxResults);
+    const results = ResultProcessor.processScoredResults(scoredResults, romajiStyle)
+      .filter(result => !options.commonOnly || result.common);
+    return ResultProcessor.applyStyle([...results, ...nameResults], style, romajiStyle, query).slice(0, maxResults);
   }
 
   /**
-   * Get word suggestions based on partial input
+   * Convert a multi-word phrase: the longest dictionary glosses are used as a whole
+   * and the remaining words are converted one by one, then the parts are joined.
+   * Returns a single combined result, or none if any part could not be converted.
    */
-  async searchSuggestions(partialQuery: string): Promise<string[]> {
-    await this.ensureInitialized();
-    return this.searchEngine!.getSuggestions(partialQuery);
+  private async convertPhrase(text: string, options: SearchOptions): Promise<ConversionResult[]> {
+    const { joiner = 'nakaguro', romajiStyle = 'hepburn', style = [] } = options;
+    const segments: PhraseSegment[] = [];
+
+    for (const part of this.phraseSegmenter!.segment(text)) {
+      let best: ConversionResult | undefined;
+      const phraseMatches = ResultFilter.apply(part.matches, options);
+      if (phraseMatches.length > 0) {
+        [best] = ResultProcessor.applyStyle(ResultProcessor.processScoredResults(phraseMatches, romajiStyle), style, romajiStyle);
+      } else if (PhraseSegmenter.isSkippable(part.text)) {
+        continue;
+      } else if (!/[a-z]/i.test(part.text)) {
+        // Numbers and other parts without letters are kept as written
+        best = { katakana: part.text, hiragana: part.text, romaji: part.text, meaning: '', common: true };
+      } else {
+        [best] = await this.convertWord(part.text, { ...options, maxResults: 1 });
+      }
+
+      if (!best) {
+        return [];
+      }
+      segments.push({ text: part.text, result: best });
+    }
+
+    if (segments.length === 0) {
+      return [];
+    }
+
+    const separator = PhraseSegmenter.separatorFor(joiner);
+    const results = segments.map(segment => segment.result);
+
+    return [{
+      katakana: results.map(result => result.katakana).join(separator),
+      hiragana: results.map(result => result.hiragana ?? JapaneseConverter.katakanaToHiragana(result.katakana)).join(separator),
+      romaji: results.map(result => result.romaji ?? JapaneseConverter.katakanaToRomaji(result.katakana, romajiStyle)).join(' '),
+      meaning: results.filter(result => result.meaning).map(result => result.meaning).join(' / '),
+      common: results.every(result => result.common),
+      source: results.some(result => result.source === 'generated') ? 'generated' : 'dictionary',
+      segments
+    }];
   }
 
-  private async ensureInitialized(): Promise<void> {
-    if (!this.dictionary || !this.searchEngine) {
-      await this.initialize();
+  /**
+   * Look up a proper name, loading the name dictionary on first use
+   */
+  private async findNames(query: string, mode: SearchMode, romajiStyle: RomajiStyle): Promise<ConversionResult[]> {
+    await this.initializeNames();
+    return this.nameSearch!.find(query, mode, romajiStyle);
+  }
+
+  /**
+   * Generate a katakana guess from English spelling rules
+   */
+  private generateResults(query: string, romajiStyle: RomajiStyle, style: KatakanaStyleRule[] = []): ConversionResult[] {
+    const generated = Transliterator.transliterate(query);
+    if (!generated) {
+      return [];
     }
+    const katakana = KatakanaStyle.apply(generated, style, query);
+
+    return [{
+      katakana,
+      hiragana: JapaneseConverter.katakanaToHiragana(katakana),
+      romaji: JapaneseConverter.katakanaToRomaji(katakana, romajiStyle),
+      meaning: '',
+      common: false,
+      source: 'generated'
+    }];
   }
 
-  // Legacy method - kept for compatibility if needed
-  private processEntryIds(entryIds: string[]): ConversionResult[] {
-    const results: ConversionResult[] = [];
+  /**
+   * Convert many English terms with the same options, loading the dictionary only once
+   */
+  async convertBatch(terms: string[], options: SearchOptions = {}): Promise<BatchResult[]> {
+    await this.ensureInitialized();
 
-    for (const entryId of entryIds) {
-      const entry = this.dictionary!.entries.get(entryId);
-      if (entry) {
-        const conversions = ResultProcessor.entryToConversions(entry);
-        results.push(...conversions);
-      }
+    const batchResults: BatchResult[] = [];
+    for (const term of terms) {
+      batchResults.push({
+        term,
+        results: await this.convert(term, options)
+      });
     }
 
-    return ResultProcessor.deduplicateResults(results);
+    return batchResults;
+  }
+
+  /**
+   * Look up English meanings from a katakana or hiragana reading
+   */
+  async reverse(kanaText: string, options: SearchOptions = {}): Promise<ReverseResult[]> {
+    await this.ensureInitialized();
+
+    const {
+      mode = 'strict',
+      fuzzy: useFuzzy = false,
+      maxResults = 10,
+      romajiStyle = 'hepburn'
+    } = options;
+    const reading = JapaneseConverter.hiraganaToKatakana(JapaneseConverter.normalizeWidth(kanaText).trim());
+
+    if (!JapaneseConverter.isKana(reading)) {
+      throw new Error(`Reverse lookup expects katakana or hiragana, got "${kanaText}"`);
+    }
+
+    let scoredResults = ResultFilter.apply(this.searchEngine!.findReadingMatches(reading, mode), options);
+
+    if (scoredResults.length === 0 && useFuzzy) {
+      scoredResults = ResultFilter.apply(this.searchEngine!.findFuzzyReadingMatches(reading, mode, maxResults), options);
+    }
+
+    return ResultProcessor.processReverseResults(scoredResults, romajiStyle).slice(0, maxResults);
+  }
+
+  /**
+   * Check katakana spellings across files against each other, the dictionary and the glossary
+   */
+  async lintFiles(paths: string[], options: LintOptions = {}): Promise<LintIssue[]> {
+    await this.ensureInitialized();
+    return new KatakanaLinter(this.dictionary!, options).lintFiles(paths);
+  }
+
+  /**
+   * Convert the terms in an i18n resource file, returning the rewritten file and
+   * what happened to each message
+   */
+  async translateResource(
+    content: string,
+    format: ResourceFormat,
+    options: I18nTranslatorOptions = {}
+  ): Promise<{ content: string; entries: TranslationEntry[] }> {
+    await this.ensureInitialized();
+    const translator = new I18nTranslator(this, options);
+    const translated = await ResourceFormats.translate(content, format, translator);
+    return { content: translated, entries: translator.getEntries() };
+  }
+
+  /**
+   * Size of the loaded dictionary and when its index was built
+   */
+  async getDictionaryStats(): Promise<{ entryCount: number; indexedAt: Date }> {
+    await this.ensureInitialized();
+    return {
+      entryCount: this.dictionary!.entries.size,
+      indexedAt: this.dictionary!.lastUpdated
+    };
+  }
+
+  /**
+   * Get word suggestions based on partial input, most relevant first
+   */
+  async searchSuggestions(partialQuery: string, maxResults = 10): Promise<string[]> {
+    await this.ensureInitialized();
+    return this.searchEngine!.getSuggestions(JapaneseConverter.normalizeWidth(partialQuery), maxResults);
+  }
+
+  /**
+   * Dictionary words a misspelled word or phrase may have meant, closest first
+   */
+  async didYouMean(query: string, maxResults = 3): Promise<string[]> {
+    await this.ensureInitialized();
+    return this.searchEngine!.getDidYouMean(JapaneseConverter.normalizeWidth(query), maxResults);
+  }
+
+  private async ensureInitialized(): Promise<void> {
+    if (!this.dictionary || !this.searchEngine) {
+      await this.initialize();
+    }
   }
-}
\ No newline at end of file
+}
@@ -1,19 +1,79 @@
-import { writeFileSync, existsSync, mkdirSync } from 'fs';
-import { join, dirname } from 'path';
+import { accessSync, constants, existsSync, readFileSync } from 'fs';
+import { homedir } from 'os';
+import { dirname, join, extname } from 'path';
 import { fileURLToPath } from 'url';
-import { exec } from 'child_process';
-import { promisify } from 'util';
+import { createHash } from 'crypto';
 import { type JMDictEntry } from '../types.js';
+import { fetchBuffer, fetchJson } from './http-client.js';
+import { ZipReader } from './zip-reader.js';
+import { FileLock } from '../utils/file-lock.js';
+import { writeFileAtomic } from '../utils/atomic-write.js';
+import { silentLogger, type Logger } from '../utils/logger.js';
 
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
+// Data directory inside the installed package, used when it is writable
+const PACKAGE_DATA_DIR = join(dirname(fileURLToPath(import.meta.url)), '../../data');
 
-const execAsync = promisify(exec);
+const RELEASES_API_URL = 'https://api.github.com/repos/scriptin/jmdict-simplified/releases/latest';
 
-const JMDICT_URL = 'https://github.com/scriptin/jmdict-simplified/releases/download/3.6.1%2B20250915122439/jmdict-eng-common-3.6.1+20250915122439.json.zip';
-const DATA_DIR = join(__dirname, '../../data');
-const JMDICT_FILE = join(DATA_DIR, 'jmdict-eng-common.json');
-const JMDICT_ZIP = join(DATA_DIR, 'jmdict-eng-common.json.zip');
+export type DictionaryDataset = 'jmdict' | 'jmnedict';
+
+interface DatasetFiles {
+  fileName: string;
+  manifestFileName: string;
+  assetPattern: RegExp;
+}
+
+const DATASETS: Record<DictionaryDataset, DatasetFiles> = {
+  jmdict: {
+    fileName: 'jmdict-eng-common.json',
+    manifestFileName: 'jmdict-eng-common.manifest.json',
+    assetPattern: /^jmdict-eng-common-.+\.json\.zip$/
+  },
+  // Proper names (places, people, companies, products); only installed on request
+  jmnedict: {
+    fileName: 'jmnedict-all.json',
+    manifestFileName: 'jmnedict-all.manifest.json',
+    assetPattern: /^jmnedict-all-.+\.json\.zip$/
+  }
+};
+
+const LOCK_FILE_NAME = '.update.lock';
+
+export interface DownloadOptions {
+  force?: boolean;   // Download even if dictionary data exists
+  dataDir?: string;  // Defaults to getDefaultDataDir()
+  logger?: Logger;   // Defaults to no output
+}
+
+export interface InstallOptions {
+  from?: string;     // Local .zip or .json file
+  url?: string;      // Mirror URL of a .zip or .json file
+  sha256?: string;   // Expected SHA-256 of the archive or JSON file
+  allowUnverified?: boolean;   // Install a download that has no checksum to verify against
+  dataset?: DictionaryDataset;   // Default: jmdict
+  dataDir?: string;  // Defaults to getDefaultDataDir()
+  logger?: Logger;   // Defaults to no output
+}
+
+export interface DictionaryManifest {
+  source: string;
+  sha256: string;
+  version?: string;
+  dictDate?: string;
+  entryCount: number;
+  installedAt: string;
+}
+
+interface ReleaseAsset {
+  name: string;
+  browser_download_url: string;
+  digest?: string | null;
+}
+
+interface ResolvedSource {
+  url: string;
+  sha256?: string;
+}
 
 // Sample data for testing
 const SAMPLE_DICTIONARY_DATA: JMDictEntry[] = [
@@ -75,65 +135,239 @@ const SAMPLE_DICTIONARY_DATA: JMDictEntry[] = [
   }
 ];
 
-export async function downloadJMDict(force = false): Promise<string> {
-  if (!force && existsSync(JMDICT_FILE)) {
-    console.log('Dictionary data already exists, using cached version');
-    return JMDICT_FILE;
+/**
+ * Make sure dictionary data exists, downloading the latest release if needed.
+ * Falls back to a small sample dictionary when the download fails and no dictionary
+ * is installed yet.
+ */
+export async function downloadJMDict(options: DownloadOptions = {}): Promise<string> {
+  const { force = false, dataDir = getDefaultDataDir(), logger = silentLogger } = options;
+  const jmdictFile = getJMDictPath(dataDir);
+  if (!force && existsSync(jmdictFile)) {
+    logger.info('Dictionary data already exists, using cached version');
+    return jmdictFile;
   }
 
-  if (!existsSync(DATA_DIR)) {
-    mkdirSync(DATA_DIR, { recursive: true });
+  return new FileLock(join(dataDir, LOCK_FILE_NAME)).withLock(async () => {
+    // Another process may have finished the download while we waited for the lock
+    if (!force && existsSync(jmdictFile)) {
+      return jmdictFile;
+    }
+
+    try {
+      logger.info(`Downloading JMDict data from GitHub into ${dataDir}...`);
+      await installFromSource({ dataDir, logger });
+      logger.info('JMDict data downloaded and extracted successfully!');
+      return jmdictFile;
+    } catch (error) {
+      // A forced update that fails keeps the dictionary already installed
+      if (existsSync(jmdictFile)) {
+        throw new Error(`Failed to download JMDict data, keeping the installed dictionary: ${error instanceof Error ? error.message : error}`);
+      }
+
+      logger.warn('Failed to download JMDict data, falling back to sample data...');
+      logger.warn(`Error: ${error instanceof Error ? error.message : error}`);
+
+      // Fallback to sample data
+      writeFileAtomic(jmdictFile, JSON.stringify(SAMPLE_DICTIONARY_DATA, null, 2));
+      logger.warn('Sample dictionary data created successfully');
+      logger.warn('Note: This is a sample dataset. For full JMDict data, try:');
+      logger.warn('  en-ka update --force');
+      return jmdictFile;
+    }
+  });
+}
+
+/**
+ * Install dictionary or name data from a local file, a mirror URL or the latest GitHub release.
+ * Unlike downloadJMDict, failures are reported instead of falling back to sample data.
+ */
+export async function installJMDict(options: InstallOptions = {}): Promise<DictionaryManifest> {
+  const dataDir = options.dataDir ?? getDefaultDataDir();
+  const logger = options.logger ?? silentLogger;
+  return new FileLock(join(dataDir, LOCK_FILE_NAME)).withLock(() => installFromSource({ ...options, dataDir, logger }));
+}
+
+async function installFromSource(options: InstallOptions & { dataDir: string; logger: Logger }): Promise<DictionaryManifest> {
+  const { logger } = options;
+  const files = DATASETS[options.dataset ?? 'jmdict'];
+  let data: Buffer;
+  let source: string;
+  let expectedSha256 = options.sha256;
+
+  if (options.from) {
+    if (!existsSync(options.from)) {
+      throw new Error(`File not found: ${options.from}`);
+    }
+    source = options.from;
+    data = readFileSync(options.from);
+  } else {
+    const resolved = options.url ? { url: options.url } : await resolveLatestRelease(files);
+    source = resolved.url;
+    expectedSha256 = expectedSha256 ?? resolved.sha256;
+
+    logger.info(`Downloading ${source}...`);
+    data = await fetchBuffer(source, { onProgress: logger.progress });
+    if (logger.progress && process.stderr.isTTY) {
+      process.stderr.write('\n');
+    }
   }
 
+  const sha256 = createHash('sha256').update(data).digest('hex');
+  if (expectedSha256) {
+    if (sha256 !== expectedSha256.toLowerCase().replace(/^sha256:/, '')) {
+      throw new Error(`Checksum mismatch for ${source}: expected ${expectedSha256}, got ${sha256}`);
+    }
+    logger.info('Checksum verified');
+  } else if (options.from || options.allowUnverified) {
+    logger.warn(`No checksum given for ${source}; SHA-256 is ${sha256}`);
+  } else {
+    throw new Error(`No checksum to verify ${source} against (its SHA-256 is ${sha256}); ` +
+      'pass --sha256 with the expected digest, or --allow-unverified to install it anyway');
+  }
+
+  const json = isZipSource(source, data) ? extractDictionaryJson(data, logger) : data;
+  const metadata = validateDictionary(json);
+
+  writeFileAtomic(join(options.dataDir, files.fileName), json);
+
+  const manifest: DictionaryManifest = {
+    source,
+    sha256,
+    ...metadata,
+    installedAt: new Date().toISOString()
+  };
+  writeFileAtomic(join(options.dataDir, files.manifestFileName), JSON.stringify(manifest, null, 2));
+
+  return manifest;
+}
+
+/**
+ * Find the dataset's asset in the latest jmdict-simplified release. The GitHub API is
+ * required: without it there is no download URL or checksum to use.
+ */
+async function resolveLatestRelease(files: DatasetFiles): Promise<ResolvedSource> {
+  let release: { assets: ReleaseAsset[] };
   try {
-    // Try downloading real JMDict data
-    console.log('Downloading JMDict data from GitHub...');
-    await downloadRealJMDict();
-    console.log('JMDict data downloaded and extracted successfully!');
-    return JMDICT_FILE;
+    release = await fetchJson<{ assets: ReleaseAsset[] }>(RELEASES_API_URL, {
+      headers: { Accept: 'application/vnd.github+json' }
+    });
   } catch (error) {
-    console.log('Failed to download JMDict data, falling back to sample data...');
-    console.log(`Error: ${error}`);
+    throw new Error(`Could not query the latest release from the GitHub API, which is required to download it: ` +
+      `${error instanceof Error ? error.message : error}. Install with --url and --sha256, or --from a local file`);
+  }
 
-    // Fallback to sample data
-    writeFileSync(JMDICT_FILE, JSON.stringify(SAMPLE_DICTIONARY_DATA, null, 2));
-    console.log('Sample dictionary data created successfully');
-    console.log('Note: This is a sample dataset. For full JMDict data, try:');
-    console.log('  en-ka update --force');
-    return JMDICT_FILE;
+  const asset = release.assets.find(candidate => files.assetPattern.test(candidate.name));
+  if (!asset) {
+    throw new Error(`The latest release has no asset matching ${files.assetPattern}`);
   }
+  return {
+    url: asset.browser_download_url,
+    sha256: asset.digest?.startsWith('sha256:') ? asset.digest.slice('sha256:'.length) : undefined
+  };
 }
 
-async function downloadRealJMDict(): Promise<void> {
-  // Use curl to download the zip file
-  console.log('Downloading zip file...');
-  await execAsync(`curl -L -o "${JMDICT_ZIP}" "${JMDICT_URL}"`);
+function isZipSource(source: string, data: Buffer): boolean {
+  return ZipReader.isZip(data) || extname(source.split('?')[0]).toLowerCase() === '.zip';
+}
 
-  if (!existsSync(JMDICT_ZIP)) {
-    throw new Error('Download failed - zip file not created');
+function extractDictionaryJson(data: Buffer, logger: Logger): Buffer {
+  const zip = new ZipReader(data);
+  const entry = zip.find(name => name.toLowerCase().endsWith('.json'));
+  if (!entry) {
+    throw new Error('No JSON file found in the dictionary archive');
   }
+  logger.info(`Extracting ${entry.name}...`);
+  return zip.extract(entry);
+}
 
-  // Extract the zip file
-  console.log('Extracting zip file...');
-  await execAsync(`cd "${DATA_DIR}" && unzip -o "${JMDICT_ZIP}"`);
+/**
+ * Check that the data is a dictionary we can load before replacing the current one
+ */
+function validateDictionary(json: Buffer): Pick<DictionaryManifest, 'version' | 'dictDate' | 'entryCount'> {
+  let parsedData;
+  try {
+    parsedData = JSON.parse(json.toString('utf-8'));
+  } catch {
+    throw new Error('Dictionary file is not valid JSON');
+  }
 
-  // Find the extracted JSON file and rename it
-  const extractedFile = join(DATA_DIR, 'jmdict-eng-common-3.6.1.json');
+  if (Array.isArray(parsedData)) {
+    return { entryCount: parsedData.length };
+  }
+  if (parsedData && Array.isArray(parsedData.words)) {
+    return {
+      version: parsedData.version,
+      dictDate: parsedData.dictDate,
+      entryCount: parsedData.words.length
+    };
+  }
+  throw new Error('Unsupported dictionary format');
+}
 
-  if (existsSync(extractedFile)) {
-    await execAsync(`mv "${extractedFile}" "${JMDICT_FILE}"`);
-  } else {
-    throw new Error('Extracted JSON file not found');
+/**
+ * Details of the installed dictionary, or null when it was not installed by en-ka update
+ * (for example the sample data)
+ */
+export function readManifest(dataDir = getDefaultDataDir(), dataset: DictionaryDataset = 'jmdict'): DictionaryManifest | null {
+  const manifestPath = join(dataDir, DATASETS[dataset].manifestFileName);
+  if (!existsSync(manifestPath)) {
+    return null;
+  }
+  try {
+    return JSON.parse(readFileSync(manifestPath, 'utf-8')) as DictionaryManifest;
+  } catch {
+    return null;
   }
+}
+
+export function getJMDictPath(dataDir = getDefaultDataDir()): string {
+  return join(dataDir, DATASETS.jmdict.fileName);
+}
+
+export function isJMDictAvailable(dataDir = getDefaultDataDir()): boolean {
+  return existsSync(getJMDictPath(dataDir));
+}
+
+export function getJMnedictPath(dataDir = getDefaultDataDir()): string {
+  return join(dataDir, DATASETS.jmnedict.fileName);
+}
 
-  // Clean up zip file
-  await execAsync(`rm -f "${JMDICT_ZIP}"`);
+export function isJMnedictAvailable(dataDir = getDefaultDataDir()): boolean {
+  return existsSync(getJMnedictPath(dataDir));
 }
 
-export function getJMDictPath(): string {
-  return JMDICT_FILE;
+/**
+ * Data directory used when none is given: the package's own data directory when it is
+ * writable (e.g. a source checkout), otherwise a per-user data directory. The CLI passes
+ * the configured directory instead.
+ */
+export function getDefaultDataDir(): string {
+  if (existsSync(join(PACKAGE_DATA_DIR, DATASETS.jmdict.fileName)) || isWritable(PACKAGE_DATA_DIR)) {
+    return PACKAGE_DATA_DIR;
+  }
+
+  const dataHome = process.platform === 'win32'
+    ? process.env.LOCALAPPDATA ?? join(homedir(), 'AppData', 'Local')
+    : process.env.XDG_DATA_HOME ?? join(homedir(), '.local', 'share');
+  return join(dataHome, 'en-ka');
 }
 
-export function isJMDictAvailable(): boolean {
-  return existsSync(JMDICT_FILE);
-}
\ No newline at end of file
+/**
+ * Whether a directory, or the nearest existing parent it would be created in, is writable
+ */
+function isWritable(directory: string): boolean {
+  let candidate = directory;
+  while (!existsSync(candidate)) {
+    const parent = dirname(candidate);
+    if (parent === candidate) return false;
+    candidate = parent;
+  }
+
+  try {
+    accessSync(candidate, constants.W_OK);
+    return true;
+  } catch {
+    return false;
+  }
+}
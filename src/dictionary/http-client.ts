@@ -0,0 +1,83 @@
+import http from 'http';
+import https from 'https';
+
+export interface FetchOptions {
+  headers?: Record<string, string>;
+  maxRedirects?: number;
+  timeoutMs?: number;
+  onProgress?: (receivedBytes: number, totalBytes: number | null) => void;
+}
+
+/**
+ * Download a URL into memory using Node's http/https modules, following redirects
+ */
+export function fetchBuffer(url: string, options: FetchOptions = {}): Promise<Buffer> {
+  const { headers = {}, maxRedirects = 10, timeoutMs = 60_000, onProgress } = options;
+
+  return new Promise((resolve, reject) => {
+    const parsedUrl = new URL(url);
+    if (parsedUrl.protocol !== 'http:' && parsedUrl.protocol !== 'https:') {
+      reject(new Error(`Unsupported URL protocol: ${parsedUrl.protocol}`));
+      return;
+    }
+
+    const client = parsedUrl.protocol === 'http:' ? http : https;
+
+    const request = client.get(parsedUrl, {
+      headers: { 'User-Agent': 'en-ka', ...headers }
+    }, (response) => {
+      const status = response.statusCode ?? 0;
+
+      if (status >= 300 && status < 400 && response.headers.location) {
+        response.resume();
+        if (maxRedirects <= 0) {
+          reject(new Error(`Too many redirects while downloading ${url}`));
+          return;
+        }
+        const nextUrl = new URL(response.headers.location, parsedUrl).toString();
+        fetchBuffer(nextUrl, { ...options, maxRedirects: maxRedirects - 1 }).then(resolve, reject);
+        return;
+      }
+
+      if (status !== 200) {
+        response.resume();
+        reject(new Error(`HTTP ${status} while downloading ${url}`));
+        return;
+      }
+
+      const totalBytes = response.headers['content-length'] ? parseInt(response.headers['content-length']) : null;
+      const chunks: Buffer[] = [];
+      let receivedBytes = 0;
+
+      response.on('data', (chunk: Buffer) => {
+        chunks.push(chunk);
+        receivedBytes += chunk.length;
+        onProgress?.(receivedBytes, totalBytes);
+      });
+      response.on('end', () => {
+        if (totalBytes !== null && receivedBytes !== totalBytes) {
+          reject(new Error(`Incomplete download from ${url}: got ${receivedBytes} of ${totalBytes} bytes`));
+          return;
+        }
+        resolve(Buffer.concat(chunks));
+      });
+      response.on('error', reject);
+    });
+
+    request.setTimeout(timeoutMs, () => {
+      request.destroy(new Error(`Timed out after ${timeoutMs}ms while downloading ${url}`));
+    });
+    request.on('error', reject);
+  });
+}
+
+/**
+ * Fetch and parse a JSON document
+ */
+export async function fetchJson<T>(url: string, options: FetchOptions = {}): Promise<T> {
+  const buffer = await fetchBuffer(url, {
+    ...options,
+    headers: { Accept: 'application/json', ...options.headers }
+  });
+  return JSON.parse(buffer.toString('utf-8')) as T;
+}
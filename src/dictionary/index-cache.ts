@@ -0,0 +1,205 @@
+import { existsSync, readFileSync, statSync, unlinkSync } from 'fs';
+import { join } from 'path';
+import { writeFileAtomic } from '../utils/atomic-write.js';
+import { getDefaultDataDir } from './downloader.js';
+import { BKTree, type PackedBKTree } from '../search/bk-tree.js';
+import { type RankingStats } from '../search/ranking.js';
+import { type IndexedDictionary, type JMDictEntry, type MatchType, type ScoredResult } from '../types.js';
+
+// Bump whenever the shape of IndexedDictionary or the indexing rules change
+const CACHE_VERSION = 5;
+const CACHE_DIR_NAME = 'cache';
+
+interface SourceStamp {
+  path: string;
+  size: number;
+  mtimeMs: number;
+}
+
+// Each row is [key, entryIndex, score, matchTypeIndex, senseIndex, entryIndex, score, ...]
+type PackedIndex = Array<Array<string | number>>;
+
+interface CacheFile {
+  version: number;
+  source: SourceStamp;
+  entries: JMDictEntry[];
+  exactMatches: PackedIndex;
+  compoundWords: PackedIndex;
+  descriptionOnly: PackedIndex;
+  phrases: PackedIndex;
+  typoIndex: PackedBKTree;
+  katakanaWords: string[];
+  readings: Array<[string, string[]]>;
+  rankingStats: RankingStats;
+  lastUpdated: string;
+}
+
+const MATCH_TYPES: MatchType[] = ['exact', 'primary', 'compound', 'description'];
+
+/**
+ * On-disk cache of the built dictionary index.
+ *
+ * Entries are stored once and the scored indexes refer to them by position, which
+ * keeps the file compact and lets a single JSON.parse replace parsing plus indexing.
+ * A cache is only used when its version and the source file's size and mtime match.
+ * The cache lives in a subdirectory of the data directory.
+ */
+export class IndexCache {
+  private cacheDir: string;
+
+  constructor(dataDir: string = getDefaultDataDir()) {
+    this.cacheDir = join(dataDir, CACHE_DIR_NAME);
+  }
+
+  /**
+   * Load the cached index for a dictionary source file, or null if missing or stale
+   */
+  load(sourcePath: string): IndexedDictionary | null {
+    const cachePath = this.getCachePath();
+    if (!existsSync(cachePath) || !existsSync(sourcePath)) {
+      return null;
+    }
+
+    try {
+      const cacheFile = JSON.parse(readFileSync(cachePath, 'utf-8')) as CacheFile;
+      if (!this.isFresh(cacheFile, this.stampSource(sourcePath))) {
+        return null;
+      }
+      return this.unpack(cacheFile);
+    } catch {
+      // A corrupt or incompatible cache is simply rebuilt
+      return null;
+    }
+  }
+
+  /**
+   * Persist the index for a dictionary source file. Failures are ignored,
+   * since the cache only speeds up later runs.
+   */
+  save(sourcePath: string, dictionary: IndexedDictionary): boolean {
+    try {
+      const cacheFile = this.pack(dictionary, this.stampSource(sourcePath));
+      writeFileAtomic(this.getCachePath(), JSON.stringify(cacheFile));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Remove the cached index, if any
+   */
+  clear(): void {
+    const cachePath = this.getCachePath();
+    if (existsSync(cachePath)) {
+      unlinkSync(cachePath);
+    }
+  }
+
+  getCachePath(): string {
+    return join(this.cacheDir, `index-v${CACHE_VERSION}.json`);
+  }
+
+  private pack(dictionary: IndexedDictionary, source: SourceStamp): CacheFile {
+    const entries = Array.from(dictionary.entries.values());
+    const positions = new Map(entries.map((entry, position) => [entry.id, position]));
+
+    const packIndex = (index: Map<string, ScoredResult[]>): PackedIndex => {
+      const rows: PackedIndex = [];
+      for (const [key, results] of index) {
+        const row: Array<string | number> = [key];
+        for (const result of results) {
+          row.push(positions.get(result.entry.id)!, result.score, MATCH_TYPES.indexOf(result.matchType), result.senseIndex ?? 0);
+        }
+        rows.push(row);
+      }
+      return rows;
+    };
+
+    return {
+      version: CACHE_VERSION,
+      source,
+      entries: entries.map(entry => this.compact(entry)),
+      exactMatches: packIndex(dictionary.exactMatches),
+      compoundWords: packIndex(dictionary.compoundWords),
+      descriptionOnly: packIndex(dictionary.descriptionOnly),
+      phrases: packIndex(dictionary.phrases),
+      typoIndex: dictionary.typoIndex.pack(),
+      katakanaWords: Array.from(dictionary.katakanaWords),
+      readings: Array.from(dictionary.readings),
+      rankingStats: dictionary.rankingStats,
+      lastUpdated: dictionary.lastUpdated.toISOString()
+    };
+  }
+
+  /**
+   * Drop empty arrays and nulls, which make up much of jmdict-simplified entries
+   */
+  private compact<T>(value: T): T {
+    if (Array.isArray(value)) {
+      return value.map(item => this.compact(item)) as T;
+    }
+    if (value === null || typeof value !== 'object') {
+      return value;
+    }
+
+    const compacted: Record<string, unknown> = {};
+    for (const [key, field] of Object.entries(value)) {
+      if (field === null || (Array.isArray(field) && field.length === 0)) continue;
+      compacted[key] = this.compact(field);
+    }
+    return compacted as T;
+  }
+
+  private unpack(cacheFile: CacheFile): IndexedDictionary {
+    const { entries } = cacheFile;
+
+    const unpackIndex = (rows: PackedIndex): Map<string, ScoredResult[]> => {
+      const index = new Map<string, ScoredResult[]>();
+      for (const row of rows) {
+        const key = row[0] as string;
+        const results: ScoredResult[] = [];
+        for (let i = 1; i < row.length; i += 4) {
+          results.push({
+            entry: entries[row[i] as number],
+            score: row[i + 1] as number,
+            matchType: MATCH_TYPES[row[i + 2] as number],
+            matchedTerm: key,
+            senseIndex: row[i + 3] as number
+          });
+        }
+        index.set(key, results);
+      }
+      return index;
+    };
+
+    return {
+      entries: new Map(entries.map(entry => [entry.id, entry])),
+      exactMatches: unpackIndex(cacheFile.exactMatches),
+      compoundWords: unpackIndex(cacheFile.compoundWords),
+      descriptionOnly: unpackIndex(cacheFile.descriptionOnly),
+      phrases: unpackIndex(cacheFile.phrases),
+      typoIndex: BKTree.unpack(cacheFile.typoIndex),
+      katakanaWords: new Set(cacheFile.katakanaWords),
+      readings: new Map(cacheFile.readings),
+      rankingStats: cacheFile.rankingStats,
+      lastUpdated: new Date(cacheFile.lastUpdated)
+    };
+  }
+
+  private isFresh(cacheFile: CacheFile, source: SourceStamp): boolean {
+    return cacheFile.version === CACHE_VERSION
+      && cacheFile.source.path === source.path
+      && cacheFile.source.size === source.size
+      && cacheFile.source.mtimeMs === source.mtimeMs;
+  }
+
+  private stampSource(sourcePath: string): SourceStamp {
+    const stats = statSync(sourcePath);
+    return {
+      path: sourcePath,
+      size: stats.size,
+      mtimeMs: stats.mtimeMs
+    };
+  }
+}
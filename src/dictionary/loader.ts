@@ -1,40 +1,126 @@
-import { readFileSync } from 'fs';
-import { type JMDictEntry, type IndexedDictionary, type ScoredResult, type MatchType } from '../types.js';
-import { downloadJMDict, getJMDictPath, isJMDictAvailable } from './downloader.js';
+import { existsSync, readFileSync } from 'fs';
+import { type JMDictEntry, type IndexedDictionary, type ScoredResult, type Sense } from '../types.js';
+import { JapaneseConverter } from '../utils/japanese-converter.js';
+import { silentLogger, type Logger } from '../utils/logger.js';
+import { PhraseSegmenter } from '../search/phrase-segmenter.js';
+import { BKTree } from '../search/bk-tree.js';
+import { DEFAULT_RANKING_WEIGHTS, RankingModel, type RankingStats, type RankingWeights } from '../search/ranking.js';
+import { downloadJMDict, getDefaultDataDir, getJMDictPath, isJMDictAvailable } from './downloader.js';
+import { IndexCache } from './index-cache.js';
+import { Glossary, type GlossaryEntry } from '../glossary/glossary.js';
+
+export interface DictionaryLoaderOptions {
+  useCache?: boolean;
+  dataDir?: string;           // Defaults to getDefaultDataDir()
+  dictionaryPath?: string;    // JMDict JSON file to load instead of the downloaded one
+  entries?: JMDictEntry[];    // Preloaded entries; nothing is read from or written to disk
+  logger?: Logger;            // Defaults to no output
+  rankingWeights?: Partial<RankingWeights>;   // Overrides for tuning; the index is then never cached
+  glossary?: GlossaryEntry[]; // Team glossary, merged after caching so edits apply immediately
+}
 
 export class DictionaryLoader {
   private indexedDict: IndexedDictionary | null = null;
+  private logger: Logger;
+  private weights: RankingWeights;
+
+  constructor(private options: DictionaryLoaderOptions = {}) {
+    this.logger = options.logger ?? silentLogger;
+    this.weights = { ...DEFAULT_RANKING_WEIGHTS, ...options.rankingWeights };
+  }
+
+  getRankingWeights(): RankingWeights {
+    return this.weights;
+  }
 
   async loadDictionary(): Promise<IndexedDictionary> {
     if (this.indexedDict) {
       return this.indexedDict;
     }
 
-    if (!isJMDictAvailable()) {
-      await downloadJMDict();
+    if (this.options.entries) {
+      this.indexedDict = this.mergeGlossary(this.buildIndex(this.options.entries));
+      return this.indexedDict;
+    }
+
+    const { dictionaryPath, useCache } = this.options;
+    // A custom dictionary file is only cached when a data directory is given for it
+    const dataDir = this.options.dataDir ?? (dictionaryPath ? null : getDefaultDataDir());
+    const cache = useCache === false || !dataDir || this.options.rankingWeights ? null : new IndexCache(dataDir);
+
+    let dictPath: string;
+    if (dictionaryPath) {
+      if (!existsSync(dictionaryPath)) {
+        throw new Error(`Dictionary file not found: ${dictionaryPath}`);
+      }
+      dictPath = dictionaryPath;
+    } else {
+      if (!isJMDictAvailable(dataDir!)) {
+        await downloadJMDict({ dataDir: dataDir!, logger: this.logger });
+      }
+      dictPath = getJMDictPath(dataDir!);
+    }
+
+    // Reuse the prebuilt index when the source file is unchanged
+    const cachedDict = cache?.load(dictPath);
+    if (cachedDict) {
+      this.indexedDict = this.mergeGlossary(cachedDict);
+      return this.indexedDict;
+    }
+
+    this.logger.info('Loading and indexing dictionary...');
+    const entries = this.parseEntries(readFileSync(dictPath, 'utf-8'));
+
+    const indexedDict = this.buildIndex(entries);
+    this.logger.info(`Dictionary loaded with ${entries.length} entries`);
+
+    cache?.save(dictPath, indexedDict);
+
+    this.indexedDict = this.mergeGlossary(indexedDict);
+    return this.indexedDict;
+  }
+
+  /**
+   * Add the team glossary to a built index. Its terms are indexed as exact matches at
+   * full score, ahead of dictionary entries with the same key.
+   */
+  private mergeGlossary(indexedDict: IndexedDictionary): IndexedDictionary {
+    const glossaryEntries = Glossary.toDictionaryEntries(this.options.glossary ?? []);
+
+    for (const entry of glossaryEntries) {
+      const [{ text: katakana }] = entry.kana;
+      const [{ text: english }] = entry.sense[0].gloss;
+      const key = english.toLowerCase().replace(/\s+/g, ' ').trim();
+      const scoredResult: ScoredResult = { entry, score: 100, matchType: 'exact', matchedTerm: key, senseIndex: 0 };
+
+      indexedDict.entries.set(entry.id, entry);
+      indexedDict.katakanaWords.add(katakana);
+      const entryIds = indexedDict.readings.get(katakana) ?? [];
+      indexedDict.readings.set(katakana, [entry.id, ...entryIds]);
+
+      indexedDict.exactMatches.set(key, [scoredResult, ...indexedDict.exactMatches.get(key) ?? []]);
+      const phraseKey = PhraseSegmenter.phraseKey(key);
+      if (phraseKey) {
+        indexedDict.phrases.set(phraseKey, [{ ...scoredResult, matchedTerm: phraseKey }, ...indexedDict.phrases.get(phraseKey) ?? []]);
+      } else {
+        indexedDict.typoIndex.add(key);
+      }
     }
+    return indexedDict;
+  }
 
-    console.log('Loading and indexing dictionary...');
-    const dictPath = getJMDictPath();
-    const rawData = readFileSync(dictPath, 'utf-8');
+  private parseEntries(rawData: string): JMDictEntry[] {
     const parsedData = JSON.parse(rawData);
 
     // Handle different JSON structures
-    let entries: JMDictEntry[];
     if (Array.isArray(parsedData)) {
       // Simple array format (our sample data)
-      entries = parsedData;
+      return parsedData;
     } else if (parsedData.words && Array.isArray(parsedData.words)) {
       // JMDict-simplified format with metadata
-      entries = parsedData.words;
-    } else {
-      throw new Error('Unsupported dictionary format');
+      return parsedData.words;
     }
-
-    this.indexedDict = this.buildIndex(entries);
-    console.log(`Dictionary loaded with ${entries.length} entries`);
-
-    return this.indexedDict;
+    throw new Error('Unsupported dictionary format');
   }
 
   private buildIndex(entries: JMDictEntry[]): IndexedDictionary {
@@ -42,7 +128,9 @@ export class DictionaryLoader {
     const exactMatches = new Map<string, ScoredResult[]>();
     const compoundWords = new Map<string, ScoredResult[]>();
     const descriptionOnly = new Map<string, ScoredResult[]>();
+    const phrases = new Map<string, ScoredResult[]>();
     const katakanaWords = new Set<string>();
+    const readings = new Map<string, string[]>();
 
     for (const entry of entries) {
       // Store entry by ID for quick lookup
@@ -53,16 +141,61 @@ export class DictionaryLoader {
         if (this.isKatakana(kana.text)) {
           katakanaWords.add(kana.text);
         }
+
+        // Map every reading back to its entry for reverse lookup
+        const reading = JapaneseConverter.hiraganaToKatakana(kana.text);
+        const entryIds = readings.get(reading);
+        if (!entryIds) {
+          readings.set(reading, [entry.id]);
+        } else if (!entryIds.includes(entry.id)) {
+          entryIds.push(entry.id);
+        }
       }
+    }
 
-      // Index by English meanings with scoring
-      for (const sense of entry.sense) {
-        for (const gloss of sense.gloss) {
-          if (gloss.lang === 'eng' || !gloss.lang) {
-            const englishText = gloss.text.toLowerCase().trim();
-            this.indexWithScoring(englishText, entry, exactMatches, compoundWords, descriptionOnly);
+    const rankingStats = this.collectRankingStats(entries);
+    const documentFrequency = this.countDocumentFrequency(entries);
+    const ranking = new RankingModel(rankingStats, this.weights);
+
+    // Index by English meanings with scoring
+    for (const entry of entries) {
+      entry.sense.forEach((sense, senseIndex) => {
+        this.englishGlosses(sense).forEach((englishText, glossIndex) => {
+          for (const glossTerm of RankingModel.glossTerms(englishText)) {
+            const { score } = ranking.rank(entry, senseIndex, glossIndex, glossTerm, documentFrequency.get(glossTerm.term) ?? 1);
+            const index = glossTerm.matchType === 'exact' ? exactMatches
+              : glossTerm.matchType === 'description' ? descriptionOnly
+                : compoundWords;
+            this.addToScoredIndex(index, glossTerm.term, {
+              entry,
+              score,
+              matchType: glossTerm.matchType,
+              matchedTerm: glossTerm.term,
+              senseIndex
+            });
           }
-        }
+
+          // Keep whole multi-word glosses for phrase conversion
+          const phraseKey = PhraseSegmenter.phraseKey(englishText);
+          if (phraseKey) {
+            const { score } = ranking.rank(entry, senseIndex, glossIndex, { term: phraseKey, matchType: 'exact', length: 1 }, 1);
+            this.addToScoredIndex(phrases, phraseKey, {
+              entry,
+              score,
+              matchType: 'exact',
+              matchedTerm: phraseKey,
+              senseIndex
+            });
+          }
+        });
+      });
+    }
+
+    // Every searchable word goes into one typo index; lookups filter by search mode
+    const typoIndex = new BKTree();
+    for (const index of [exactMatches, compoundWords, descriptionOnly]) {
+      for (const key of index.keys()) {
+        typoIndex.add(key);
       }
     }
 
@@ -71,83 +204,80 @@ export class DictionaryLoader {
       exactMatches,
       compoundWords,
       descriptionOnly,
+      phrases,
+      typoIndex,
       katakanaWords,
+      readings,
+      rankingStats,
       lastUpdated: new Date()
     };
   }
 
-  private indexWithScoring(
-    englishText: string,
-    entry: JMDictEntry,
-    exactMatches: Map<string, ScoredResult[]>,
-    compoundWords: Map<string, ScoredResult[]>,
-    descriptionOnly: Map<string, ScoredResult[]>
-  ): void {
-    const words = englishText.split(/[\s,;()[\]]+/).filter(w => w.length > 0);
-    const cleanWords = words.filter(word => word.length > 2 && !this.isCommonWord(word));
-
-    if (cleanWords.length === 1) {
-      // Single word - add to exact matches with high score
-      const word = cleanWords[0];
-      const scoredResult: ScoredResult = {
-        entry,
-        score: 100,
-        matchType: 'exact',
-        matchedTerm: word
-      };
-      this.addToScoredIndex(exactMatches, word, scoredResult);
-    } else if (cleanWords.length > 1) {
-      // Multiple words - compound phrase
-      // BUT ALSO index each word individually with appropriate scores
-
-      for (let i = 0; i < cleanWords.length; i++) {
-        const word = cleanWords[i];
-
-        if (i === 0) {
-          // First word gets higher score (primary meaning)
-          const primaryScored: ScoredResult = {
-            entry,
-            score: 80,
-            matchType: 'primary',
-            matchedTerm: word
-          };
-          this.addToScoredIndex(compoundWords, word, primaryScored);
-        } else {
-          // Other words get lower score (secondary meaning)
-          const secondaryScored: ScoredResult = {
-            entry,
-            score: 60,
-            matchType: 'compound',
-            matchedTerm: word
-          };
-          this.addToScoredIndex(compoundWords, word, secondaryScored);
+  /**
+   * Lowercase English glosses of a sense
+   */
+  private englishGlosses(sense: Sense): string[] {
+    return sense.gloss
+      .filter(gloss => gloss.lang === 'eng' || !gloss.lang)
+      .map(gloss => gloss.text.toLowerCase().trim());
+  }
+
+  private collectRankingStats(entries: JMDictEntry[]): RankingStats {
+    let glossCount = 0;
+    let wordCount = 0;
+    for (const entry of entries) {
+      for (const sense of entry.sense) {
+        for (const gloss of this.englishGlosses(sense)) {
+          const mainTerms = RankingModel.glossTerms(gloss).filter(term => term.matchType !== 'description');
+          glossCount++;
+          wordCount += mainTerms.length;
         }
       }
     }
+    return {
+      entryCount: entries.length,
+      averageGlossLength: glossCount > 0 ? Math.max(1, wordCount / glossCount) : 1
+    };
+  }
 
-    // Also check if any words might be in descriptions/parentheses
-    const descriptionMatch = englishText.match(/\(([^)]+)\)/);
-    if (descriptionMatch) {
-      const descWords = descriptionMatch[1].split(/[\s,;]+/)
-        .filter(word => word.length > 2 && !this.isCommonWord(word));
-
-      for (const word of descWords) {
-        const descScored: ScoredResult = {
-          entry,
-          score: 20,
-          matchType: 'description',
-          matchedTerm: word
-        };
-        this.addToScoredIndex(descriptionOnly, word, descScored);
+  /**
+   * Number of entries each term appears in, across all of their glosses
+   */
+  private countDocumentFrequency(entries: JMDictEntry[]): Map<string, number> {
+    const frequency = new Map<string, number>();
+    for (const entry of entries) {
+      const terms = new Set<string>();
+      for (const sense of entry.sense) {
+        for (const gloss of this.englishGlosses(sense)) {
+          for (const { term } of RankingModel.glossTerms(gloss)) {
+            terms.add(term);
+          }
+        }
+      }
+      for (const term of terms) {
+        frequency.set(term, (frequency.get(term) ?? 0) + 1);
       }
     }
+    return frequency;
   }
 
+  /**
+   * Add a match, keeping only the best-scoring one per entry. Entries are indexed one
+   * after another, so an earlier match for the same entry is always the last in the list.
+   */
   private addToScoredIndex(index: Map<string, ScoredResult[]>, key: string, scoredResult: ScoredResult): void {
-    if (!index.has(key)) {
-      index.set(key, []);
+    const results = index.get(key);
+    if (!results) {
+      index.set(key, [scoredResult]);
+      return;
+    }
+
+    const last = results[results.length - 1];
+    if (last.entry.id !== scoredResult.entry.id) {
+      results.push(scoredResult);
+    } else if (scoredResult.score > last.score) {
+      results[results.length - 1] = scoredResult;
     }
-    index.get(key)!.push(scoredResult);
   }
 
   private isKatakana(text: string): boolean {
@@ -155,16 +285,6 @@ export class DictionaryLoader {
     return /^[\u30A0-\u30FF\u30FC\u3099\u309A]+$/.test(text);
   }
 
-  private isCommonWord(word: string): boolean {
-    const commonWords = new Set([
-      'the', 'and', 'or', 'but', 'for', 'with', 'without', 'from', 'to', 'at', 'in', 'on',
-      'by', 'of', 'a', 'an', 'be', 'is', 'are', 'was', 'were', 'being', 'been',
-      'have', 'has', 'had', 'do', 'does', 'did', 'will', 'would', 'could', 'should',
-      'may', 'might', 'can', 'must', 'shall', 'this', 'that', 'these', 'those'
-    ]);
-    return commonWords.has(word.toLowerCase());
-  }
-
   getIndexedDictionary(): IndexedDictionary | null {
     return this.indexedDict;
   }
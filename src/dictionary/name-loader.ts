@@ -0,0 +1,168 @@
+import { existsSync, readFileSync, statSync } from 'fs';
+import { join } from 'path';
+import { type JMnedictEntry, type MatchType } from '../types.js';
+import { JapaneseConverter } from '../utils/japanese-converter.js';
+import { silentLogger, type Logger } from '../utils/logger.js';
+import { writeFileAtomic } from '../utils/atomic-write.js';
+import { getDefaultDataDir, getJMnedictPath } from './downloader.js';
+
+// Bump whenever the cached entry selection changes
+const NAME_CACHE_VERSION = 1;
+
+export interface NameDictionaryLoaderOptions {
+  useCache?: boolean;
+  dataDir?: string;           // Defaults to getDefaultDataDir()
+  dictionaryPath?: string;    // JMnedict JSON file to load instead of the installed one
+  entries?: JMnedictEntry[];  // Preloaded entries; nothing is read from or written to disk
+  logger?: Logger;            // Defaults to no output
+}
+
+export interface NameMatch {
+  entry: JMnedictEntry;
+  score: number;
+  matchType: MatchType;
+}
+
+export interface IndexedNames {
+  entryCount: number;
+  names: Map<string, NameMatch[]>;   // Lowercase English names, and their words, to entries
+}
+
+interface NameCacheFile {
+  version: number;
+  source: { path: string; size: number; mtimeMs: number };
+  entries: JMnedictEntry[];
+}
+
+/**
+ * Loads the optional JMnedict proper-name dictionary. Only names with a katakana
+ * reading are kept, since names written in kanji and kana have no loanword form.
+ */
+export class NameDictionaryLoader {
+  private indexedNames: IndexedNames | null = null;
+  private logger: Logger;
+
+  constructor(private options: NameDictionaryLoaderOptions = {}) {
+    this.logger = options.logger ?? silentLogger;
+  }
+
+  async loadNames(): Promise<IndexedNames> {
+    if (this.indexedNames) {
+      return this.indexedNames;
+    }
+
+    if (this.options.entries) {
+      this.indexedNames = this.buildIndex(this.options.entries.filter(entry => this.hasKatakanaReading(entry)));
+      return this.indexedNames;
+    }
+
+    const { dictionaryPath, useCache } = this.options;
+    const dataDir = this.options.dataDir ?? (dictionaryPath ? null : getDefaultDataDir());
+    const namesPath = dictionaryPath ?? getJMnedictPath(dataDir!);
+    if (!existsSync(namesPath)) {
+      throw new Error(dictionaryPath
+        ? `Name dictionary file not found: ${dictionaryPath}`
+        : 'Name dictionary is not installed. Run "en-ka update --names" to download it.');
+    }
+
+    const cachePath = useCache === false || !dataDir ? null : join(dataDir, 'cache', `names-v${NAME_CACHE_VERSION}.json`);
+    const source = this.stampSource(namesPath);
+
+    const cachedEntries = cachePath ? this.loadCache(cachePath, source) : null;
+    if (cachedEntries) {
+      this.indexedNames = this.buildIndex(cachedEntries);
+      return this.indexedNames;
+    }
+
+    this.logger.info('Loading name dictionary...');
+    const entries = this.parseEntries(readFileSync(namesPath, 'utf-8'))
+      .filter(entry => this.hasKatakanaReading(entry));
+    this.logger.info(`Name dictionary loaded with ${entries.length} names in katakana`);
+
+    if (cachePath) {
+      try {
+        const cacheFile: NameCacheFile = { version: NAME_CACHE_VERSION, source, entries };
+        writeFileAtomic(cachePath, JSON.stringify(cacheFile));
+      } catch {
+        // The cache only speeds up later runs
+      }
+    }
+
+    this.indexedNames = this.buildIndex(entries);
+    return this.indexedNames;
+  }
+
+  private parseEntries(rawData: string): JMnedictEntry[] {
+    const parsedData = JSON.parse(rawData);
+    if (Array.isArray(parsedData)) {
+      return parsedData;
+    } else if (parsedData.words && Array.isArray(parsedData.words)) {
+      return parsedData.words;
+    }
+    throw new Error('Unsupported name dictionary format');
+  }
+
+  /**
+   * Index each English name whole, and the words of multi-word names
+   * ("Elizabeth Taylor" under "elizabeth" and "taylor") for broader searches
+   */
+  private buildIndex(entries: JMnedictEntry[]): IndexedNames {
+    const names = new Map<string, NameMatch[]>();
+    const add = (key: string, match: NameMatch) => {
+      const matches = names.get(key);
+      if (!matches) {
+        names.set(key, [match]);
+      } else if (!matches.some(existing => existing.entry.id === match.entry.id && existing.score >= match.score)) {
+        matches.push(match);
+      }
+    };
+
+    for (const entry of entries) {
+      for (const translation of entry.translation) {
+        for (const gloss of translation.translation) {
+          if (gloss.lang && gloss.lang !== 'eng') continue;
+
+          const name = gloss.text.replace(/\([^)]*\)/g, ' ').toLowerCase().replace(/\s+/g, ' ').trim();
+          if (name.length === 0) continue;
+          add(name, { entry, score: 100, matchType: 'exact' });
+
+          const words = name.split(/[\s,]+/).filter(word => word.length > 1);
+          if (words.length > 1) {
+            words.forEach((word, position) => {
+              add(word, position === 0
+                ? { entry, score: 80, matchType: 'primary' }
+                : { entry, score: 60, matchType: 'compound' });
+            });
+          }
+        }
+      }
+    }
+
+    return { entryCount: entries.length, names };
+  }
+
+  private hasKatakanaReading(entry: JMnedictEntry): boolean {
+    return entry.kana.some(kana => JapaneseConverter.isKatakana(kana.text));
+  }
+
+  private loadCache(cachePath: string, source: NameCacheFile['source']): JMnedictEntry[] | null {
+    if (!existsSync(cachePath)) {
+      return null;
+    }
+    try {
+      const cacheFile = JSON.parse(readFileSync(cachePath, 'utf-8')) as NameCacheFile;
+      const fresh = cacheFile.version === NAME_CACHE_VERSION
+        && cacheFile.source.path === source.path
+        && cacheFile.source.size === source.size
+        && cacheFile.source.mtimeMs === source.mtimeMs;
+      return fresh ? cacheFile.entries : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private stampSource(sourcePath: string): NameCacheFile['source'] {
+    const stats = statSync(sourcePath);
+    return { path: sourcePath, size: stats.size, mtimeMs: stats.mtimeMs };
+  }
+}
@@ -0,0 +1,149 @@
+import { inflateRawSync } from 'zlib';
+
+export interface ZipEntry {
+  name: string;
+  method: number;
+  crc32: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+/**
+ * Minimal zip archive reader for stored and deflated entries.
+ * Reads the central directory, extracts with zlib and verifies each entry's CRC-32.
+ */
+export class ZipReader {
+  private static crcTable: Uint32Array | null = null;
+
+  readonly entries: ZipEntry[];
+
+  constructor(private buffer: Buffer) {
+    this.entries = this.readCentralDirectory();
+  }
+
+  static isZip(buffer: Buffer): boolean {
+    return buffer.length >= 4 && buffer.readUInt32LE(0) === LOCAL_FILE_HEADER;
+  }
+
+  /**
+   * Find the first entry whose name matches the predicate
+   */
+  find(predicate: (name: string) => boolean): ZipEntry | undefined {
+    return this.entries.find(entry => !entry.name.endsWith('/') && predicate(entry.name));
+  }
+
+  /**
+   * Extract an entry and check its CRC-32
+   */
+  extract(entry: ZipEntry): Buffer {
+    const offset = entry.localHeaderOffset;
+    if (this.buffer.readUInt32LE(offset) !== LOCAL_FILE_HEADER) {
+      throw new Error(`Corrupt zip archive: bad local header for ${entry.name}`);
+    }
+
+    const nameLength = this.buffer.readUInt16LE(offset + 26);
+    const extraLength = this.buffer.readUInt16LE(offset + 28);
+    const dataStart = offset + 30 + nameLength + extraLength;
+    const compressed = this.buffer.subarray(dataStart, dataStart + entry.compressedSize);
+
+    let data: Buffer;
+    switch (entry.method) {
+      case METHOD_STORED:
+        data = Buffer.from(compressed);
+        break;
+      case METHOD_DEFLATE:
+        data = inflateRawSync(compressed);
+        break;
+      default:
+        throw new Error(`Unsupported zip compression method ${entry.method} for ${entry.name}`);
+    }
+
+    if (data.length !== entry.uncompressedSize || ZipReader.crc32(data) !== entry.crc32) {
+      throw new Error(`Checksum mismatch while extracting ${entry.name}`);
+    }
+
+    return data;
+  }
+
+  static crc32(data: Buffer): number {
+    const table = this.getCrcTable();
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) {
+      crc = table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+  }
+
+  private readCentralDirectory(): ZipEntry[] {
+    const endOffset = this.findEndOfCentralDirectory();
+    const entryCount = this.buffer.readUInt16LE(endOffset + 10);
+    const directoryOffset = this.buffer.readUInt32LE(endOffset + 16);
+
+    if (entryCount === 0xffff || directoryOffset === 0xffffffff) {
+      throw new Error('ZIP64 archives are not supported');
+    }
+
+    const entries: ZipEntry[] = [];
+    let offset = directoryOffset;
+
+    for (let i = 0; i < entryCount; i++) {
+      if (this.buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+        throw new Error('Corrupt zip archive: bad central directory');
+      }
+
+      const nameLength = this.buffer.readUInt16LE(offset + 28);
+      const extraLength = this.buffer.readUInt16LE(offset + 30);
+      const commentLength = this.buffer.readUInt16LE(offset + 32);
+
+      entries.push({
+        method: this.buffer.readUInt16LE(offset + 10),
+        crc32: this.buffer.readUInt32LE(offset + 16),
+        compressedSize: this.buffer.readUInt32LE(offset + 20),
+        uncompressedSize: this.buffer.readUInt32LE(offset + 24),
+        localHeaderOffset: this.buffer.readUInt32LE(offset + 42),
+        name: this.buffer.toString('utf-8', offset + 46, offset + 46 + nameLength)
+      });
+
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+
+    return entries;
+  }
+
+  private findEndOfCentralDirectory(): number {
+    if (this.buffer.length < 22) {
+      throw new Error('Not a zip archive: file is too short');
+    }
+
+    // The record is at least 22 bytes and may be followed by a comment of up to 64 KiB
+    const lowestOffset = Math.max(0, this.buffer.length - 22 - 0xffff);
+    for (let offset = this.buffer.length - 22; offset >= lowestOffset; offset--) {
+      if (this.buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+        return offset;
+      }
+    }
+    throw new Error('Not a zip archive: end of central directory not found');
+  }
+
+  private static getCrcTable(): Uint32Array {
+    if (!this.crcTable) {
+      this.crcTable = new Uint32Array(256);
+      for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+          c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        this.crcTable[n] = c >>> 0;
+      }
+    }
+    return this.crcTable;
+  }
+}
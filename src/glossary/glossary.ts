@@ -0,0 +1,224 @@
+import { existsSync, readFileSync } from 'fs';
+import { extname } from 'path';
+import YAML from 'yaml';
+import { TermReader } from '../batch/term-reader.js';
+import { JapaneseConverter } from '../utils/japanese-converter.js';
+import { writeFileAtomic } from '../utils/atomic-write.js';
+import type { JMDictEntry } from '../types.js';
+
+/**
+ * A house spelling: the katakana a team uses for an English term
+ */
+export interface GlossaryEntry {
+  english: string;
+  katakana: string;
+  note?: string;
+  preferredOver?: string[];   // Spellings this one replaces, e.g. サーバ for サーバー
+}
+
+export interface ImportSummary {
+  added: number;
+  updated: number;
+}
+
+const ID_PREFIX = 'glossary:';
+
+/**
+ * Team glossary file in JSON or YAML, chosen by extension:
+ *
+ *   { "entries": [{ "english": "server", "katakana": "サーバー", "preferredOver": ["サーバ"] }] }
+ *
+ * YAML files are edited in place, so comments outside the entries survive add and remove.
+ */
+export class Glossary {
+  constructor(private path: string) {}
+
+  getPath(): string {
+    return this.path;
+  }
+
+  exists(): boolean {
+    return existsSync(this.path);
+  }
+
+  /**
+   * Entries of the glossary file, or none when it does not exist yet
+   */
+  load(): GlossaryEntry[] {
+    if (!this.exists()) {
+      return [];
+    }
+    return Glossary.parse(readFileSync(this.path, 'utf-8'), this.path);
+  }
+
+  /**
+   * Add an entry, replacing any entry with the same English term and katakana.
+   * Returns true when an entry was replaced.
+   */
+  add(entry: GlossaryEntry): boolean {
+    const [validated] = Glossary.validate([entry]);
+    const entries = this.load();
+    const index = entries.findIndex(existing => Glossary.isSameEntry(existing, validated));
+
+    if (index >= 0) {
+      entries[index] = validated;
+    } else {
+      entries.push(validated);
+    }
+    this.save(entries);
+    return index >= 0;
+  }
+
+  /**
+   * Remove the entries for an English term, or only its given spelling. Returns how many were removed.
+   */
+  remove(english: string, katakana?: string): number {
+    const entries = this.load();
+    const kept = entries.filter(entry =>
+      entry.english.toLowerCase() !== english.trim().toLowerCase() ||
+      (katakana !== undefined && entry.katakana !== katakana.trim())
+    );
+    if (kept.length !== entries.length) {
+      this.save(kept);
+    }
+    return entries.length - kept.length;
+  }
+
+  /**
+   * Merge entries from another glossary file (JSON, YAML) or a CSV/TSV file with
+   * english, katakana and optional note columns
+   */
+  import(sourcePath: string): ImportSummary {
+    if (!existsSync(sourcePath)) {
+      throw new Error(`File not found: ${sourcePath}`);
+    }
+
+    const content = readFileSync(sourcePath, 'utf-8');
+    const extension = extname(sourcePath).toLowerCase();
+    const imported = extension === '.csv' || extension === '.tsv'
+      ? Glossary.parseDelimited(content, extension === '.csv' ? ',' : '\t', sourcePath)
+      : Glossary.parse(content, sourcePath);
+
+    const entries = this.load();
+    const summary: ImportSummary = { added: 0, updated: 0 };
+    for (const entry of imported) {
+      const index = entries.findIndex(existing => Glossary.isSameEntry(existing, entry));
+      if (index >= 0) {
+        entries[index] = entry;
+        summary.updated++;
+      } else {
+        entries.push(entry);
+        summary.added++;
+      }
+    }
+
+    this.save(entries);
+    return summary;
+  }
+
+  /**
+   * Dictionary entries for merging into the index; ids are unique per glossary position
+   */
+  static toDictionaryEntries(entries: GlossaryEntry[]): JMDictEntry[] {
+    return entries.map((entry, position) => ({
+      id: `${ID_PREFIX}${position}`,
+      kana: [{ text: entry.katakana, common: true }],
+      sense: [{ gloss: [{ text: entry.english, lang: 'eng' }] }],
+      glossary: {
+        ...(entry.note && { note: entry.note }),
+        ...(entry.preferredOver && { preferredOver: entry.preferredOver })
+      }
+    }));
+  }
+
+  private static parse(content: string, source: string): GlossaryEntry[] {
+    let data: unknown;
+    try {
+      data = this.isYaml(source) ? YAML.parse(content) : JSON.parse(content);
+    } catch (error) {
+      throw new Error(`Could not parse glossary ${source}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    if (data === null || data === undefined) {
+      return [];
+    }
+    const entries = Array.isArray(data) ? data : (data as { entries?: unknown }).entries;
+    if (!Array.isArray(entries)) {
+      throw new Error(`Glossary ${source} must contain an "entries" list`);
+    }
+    return this.validate(entries, source);
+  }
+
+  private static parseDelimited(content: string, delimiter: string, source: string): GlossaryEntry[] {
+    const rows = TermReader.splitRows(content, delimiter);
+
+    // Skip a header row such as "english,katakana,note"
+    if (rows.length > 0 && rows[0][0]?.trim().toLowerCase() === 'english') {
+      rows.shift();
+    }
+
+    return this.validate(rows.map(([english, katakana, note]) => ({
+      english,
+      katakana,
+      ...(note?.trim() && { note: note.trim() })
+    })), source);
+  }
+
+  /**
+   * Check every entry, reporting the first problem with its position
+   */
+  private static validate(entries: unknown[], source?: string): GlossaryEntry[] {
+    return entries.map((raw, position) => {
+      const where = source ? `${source} entry ${position + 1}` : 'entry';
+      if (!raw || typeof raw !== 'object') {
+        throw new Error(`Invalid glossary ${where}: expected an object`);
+      }
+
+      const { english, katakana, note, preferredOver } = raw as Record<string, unknown>;
+      if (typeof english !== 'string' || english.trim().length === 0) {
+        throw new Error(`Invalid glossary ${where}: "english" is required`);
+      }
+      if (typeof katakana !== 'string' || !JapaneseConverter.isKatakana(katakana.trim())) {
+        throw new Error(`Invalid glossary ${where}: "katakana" must be written in katakana`);
+      }
+      if (note !== undefined && typeof note !== 'string') {
+        throw new Error(`Invalid glossary ${where}: "note" must be text`);
+      }
+      if (preferredOver !== undefined &&
+        (!Array.isArray(preferredOver) || !preferredOver.every(spelling => typeof spelling === 'string'))) {
+        throw new Error(`Invalid glossary ${where}: "preferredOver" must be a list of spellings`);
+      }
+
+      return {
+        english: english.trim(),
+        katakana: JapaneseConverter.toFullWidthKatakana(katakana.trim()),
+        ...(note && { note }),
+        ...(preferredOver && preferredOver.length > 0 && { preferredOver: preferredOver.map(spelling => JapaneseConverter.toFullWidthKatakana(spelling.trim())) })
+      };
+    });
+  }
+
+  private save(entries: GlossaryEntry[]): void {
+    if (!Glossary.isYaml(this.path)) {
+      writeFileAtomic(this.path, JSON.stringify({ entries }, null, 2) + '\n');
+      return;
+    }
+
+    const document = this.exists()
+      ? YAML.parseDocument(readFileSync(this.path, 'utf-8'))
+      : new YAML.Document({});
+    if (!YAML.isMap(document.contents)) {
+      document.contents = document.createNode({});
+    }
+    document.set('entries', document.createNode(entries));
+    writeFileAtomic(this.path, document.toString());
+  }
+
+  private static isSameEntry(a: GlossaryEntry, b: GlossaryEntry): boolean {
+    return a.english.toLowerCase() === b.english.toLowerCase() && a.katakana === b.katakana;
+  }
+
+  private static isYaml(path: string): boolean {
+    return ['.yaml', '.yml'].includes(extname(path).toLowerCase());
+  }
+}
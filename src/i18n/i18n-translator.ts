@@ -0,0 +1,155 @@
+import type { EnglishToKatakanaConverter } from '../converter.js';
+import type { ConversionResult, KatakanaStyleRule, PhraseJoiner, TextWidth } from '../types.js';
+import { Placeholders, type MessagePart } from './placeholders.js';
+
+// converted: every word came from the dictionary or glossary without doubt
+// review: converted, but a person should check the spelling
+// untouched: left in English, e.g. a sentence, and needs a translator
+// skipped: nothing to convert (empty, or only placeholders)
+export type MessageStatus = 'converted' | 'review' | 'untouched' | 'skipped';
+
+export interface TranslatedMessage {
+  parts: MessagePart[];
+  status: MessageStatus;
+  reason?: string;
+}
+
+export interface TranslationEntry {
+  key: string;
+  source: string;
+  target: string;
+  status: MessageStatus;
+  reason?: string;
+}
+
+export interface I18nTranslatorOptions {
+  maxWords?: number;            // Longer messages are left untouched (default: 4)
+  style?: KatakanaStyleRule[];
+  width?: TextWidth;
+  joiner?: PhraseJoiner;        // Between the words of a phrase (default: nakaguro)
+}
+
+const DEFAULT_MAX_WORDS = 4;
+
+// Results scoring at least this share of the best one make a term ambiguous
+const AMBIGUITY_RATIO = 0.9;
+
+// Sentence punctuation marks a message as more than a term
+const SENTENCE_PUNCTUATION = /[.!?,;:"()]/;
+
+// Terms are letters, digits, spaces, hyphens and apostrophes; other symbols such as &
+// would be lost in conversion
+const TERM_CHARACTERS = /^[\p{L}\p{N}\s'’-]*$/u;
+
+/**
+ * Converts the terms and short noun phrases of i18n messages to katakana with the
+ * converter, keeping placeholders, and records each message for the review report
+ */
+export class I18nTranslator {
+  private entries: TranslationEntry[] = [];
+  private maxWords: number;
+
+  constructor(private converter: EnglishToKatakanaConverter, private options: I18nTranslatorOptions = {}) {
+    this.maxWords = options.maxWords ?? DEFAULT_MAX_WORDS;
+  }
+
+  getEntries(): TranslationEntry[] {
+    return this.entries;
+  }
+
+  /**
+   * Convert a plain message such as "{count} files"
+   */
+  async translate(key: string, message: string): Promise<TranslatedMessage> {
+    if (Placeholders.isIcuMessage(message)) {
+      return this.record(key, message, { parts: [{ text: message, placeholder: true }], status: 'untouched', reason: 'ICU plural or select message' });
+    }
+    return this.translateParts(key, Placeholders.split(message));
+  }
+
+  /**
+   * Convert a message already split into text and markup, as XLIFF inline elements are
+   */
+  async translateParts(key: string, parts: MessagePart[]): Promise<TranslatedMessage> {
+    const text = parts.filter(part => !part.placeholder).map(part => part.text).join(' ');
+    const wordCount = text.split(/\s+/).filter(word => /[A-Za-z]/.test(word)).length;
+
+    if (wordCount === 0) {
+      return this.record(key, Placeholders.join(parts), { parts, status: 'skipped' });
+    }
+    if (SENTENCE_PUNCTUATION.test(text)) {
+      return this.record(key, Placeholders.join(parts), { parts, status: 'untouched', reason: 'sentence' });
+    }
+    if (!TERM_CHARACTERS.test(text)) {
+      return this.record(key, Placeholders.join(parts), { parts, status: 'untouched', reason: 'symbols in the text' });
+    }
+    if (wordCount > this.maxWords) {
+      return this.record(key, Placeholders.join(parts), { parts, status: 'untouched', reason: `more than ${this.maxWords} words` });
+    }
+
+    const translated: MessagePart[] = [];
+    const reasons: string[] = [];
+    for (const part of parts) {
+      if (part.placeholder || !/[A-Za-z]/.test(part.text)) {
+        translated.push(part);
+        continue;
+      }
+
+      const conversion = await this.convertText(part.text.trim());
+      if (!conversion) {
+        return this.record(key, Placeholders.join(parts), { parts, status: 'untouched', reason: `"${part.text.trim()}" not in the dictionary` });
+      }
+      if (conversion.reason) {
+        reasons.push(conversion.reason);
+      }
+
+      // Keep the spacing around placeholders as in the source
+      const [leading] = part.text.match(/^\s*/)!;
+      const [trailing] = part.text.match(/\s*$/)!;
+      translated.push({ text: leading + conversion.katakana + trailing, placeholder: false });
+    }
+
+    return this.record(key, Placeholders.join(parts), reasons.length > 0
+      ? { parts: translated, status: 'review', reason: reasons.join('; ') }
+      : { parts: translated, status: 'converted' });
+  }
+
+  /**
+   * Katakana for a term or phrase, with the reason to review it if it is uncertain
+   */
+  private async convertText(text: string): Promise<{ katakana: string; reason?: string } | null> {
+    const { style, width, joiner } = this.options;
+    const phrase = /\s/.test(text);
+    const results = await this.converter.convert(text, { phrase, style, width, joiner, maxResults: 5 });
+    const [best] = results;
+    if (!best) {
+      return null;
+    }
+
+    const parts: ConversionResult[] = best.segments?.map(segment => segment.result) ?? [best];
+    if (parts.some(part => part.source === 'generated')) {
+      return { katakana: best.katakana, reason: 'generated from spelling, not in the dictionary' };
+    }
+
+    if (!phrase && best.source !== 'glossary') {
+      const alternatives = results.slice(1).filter(result =>
+        result.source !== 'generated' && (result.score ?? 0) >= (best.score ?? 0) * AMBIGUITY_RATIO);
+      if (alternatives.length > 0) {
+        return { katakana: best.katakana, reason: `ambiguous, also ${alternatives.map(result => result.katakana).join(', ')}` };
+      }
+    }
+
+    return { katakana: best.katakana };
+  }
+
+  private record(key: string, source: string, message: TranslatedMessage): TranslatedMessage {
+    this.entries.push({
+      key,
+      source,
+      target: Placeholders.join(message.parts),
+      status: message.status,
+      ...(message.reason && { reason: message.reason })
+    });
+    return message;
+  }
+}
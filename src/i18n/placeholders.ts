@@ -0,0 +1,49 @@
+/**
+ * Part of a message: text to convert, or a placeholder or markup to keep as written
+ */
+export interface MessagePart {
+  text: string;
+  placeholder: boolean;
+}
+
+// {count}, {{name}}, ${name}, %s, %1$d, %(name)s, %%, :name (Laravel) and HTML or XML tags
+const PLACEHOLDER = /\{\{[^{}]*\}\}|\$?\{[^{}]*\}|%(?:\d+\$)?[-+ 0#]*\d*(?:\.\d+)?[sdifuxXoeEgGc@]|%\([^)]+\)[sdif]|%%|(?<=^|\s):[a-z_]+\b|<[^<>]+>/g;
+
+/**
+ * Interpolation placeholders in i18n messages, which pass through conversion untouched
+ */
+export class Placeholders {
+  /**
+   * Split a message into text and placeholders, e.g. "{count} files" into
+   * "{count}" and " files"
+   */
+  static split(message: string): MessagePart[] {
+    const parts: MessagePart[] = [];
+    let position = 0;
+
+    for (const match of message.matchAll(PLACEHOLDER)) {
+      if (match.index! > position) {
+        parts.push({ text: message.slice(position, match.index), placeholder: false });
+      }
+      parts.push({ text: match[0], placeholder: true });
+      position = match.index! + match[0].length;
+    }
+
+    if (position < message.length) {
+      parts.push({ text: message.slice(position), placeholder: false });
+    }
+    return parts;
+  }
+
+  /**
+   * ICU MessageFormat plurals and selects nest messages inside placeholders, so they are
+   * not split: "{count, plural, one {# file} other {# files}}"
+   */
+  static isIcuMessage(message: string): boolean {
+    return /\{\s*[\w.]+\s*,\s*(plural|select|selectordinal)\s*,/.test(message);
+  }
+
+  static join(parts: MessagePart[]): string {
+    return parts.map(part => part.text).join('');
+  }
+}
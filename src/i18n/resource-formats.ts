@@ -0,0 +1,397 @@
+import { extname } from 'path';
+import YAML from 'yaml';
+import type { I18nTranslator, TranslatedMessage } from './i18n-translator.js';
+import { Placeholders, type MessagePart } from './placeholders.js';
+
+export type ResourceFormat = 'json' | 'yaml' | 'po' | 'xliff';
+
+const EXTENSION_FORMATS: Record<string, ResourceFormat> = {
+  '.json': 'json',
+  '.yaml': 'yaml',
+  '.yml': 'yaml',
+  '.po': 'po',
+  '.pot': 'po',
+  '.xlf': 'xliff',
+  '.xliff': 'xliff'
+};
+
+const TARGET_LANGUAGE = 'ja';
+
+/**
+ * Rewrites i18n resource files with converted messages. Everything except the message
+ * text is kept as written: keys, their order, comments and formatting.
+ */
+export class ResourceFormats {
+  static readonly FORMATS: ResourceFormat[] = ['json', 'yaml', 'po', 'xliff'];
+
+  static formatForFile(path: string): ResourceFormat | undefined {
+    return EXTENSION_FORMATS[extname(path).toLowerCase()];
+  }
+
+  static async translate(content: string, format: ResourceFormat, translator: I18nTranslator): Promise<string> {
+    switch (format) {
+      case 'json':
+        return this.translateJson(content, translator);
+      case 'yaml':
+        return this.translateYaml(content, translator);
+      case 'po':
+        return this.translatePo(content, translator);
+      case 'xliff':
+        return this.translateXliff(content, translator);
+    }
+  }
+
+  /**
+   * Nested JSON objects and arrays of strings. String values are replaced in the source
+   * text, so keys, their order and formatting stay as written. JSON has no comments, so
+   * messages to review are only listed in the report.
+   */
+  private static async translateJson(content: string, translator: I18nTranslator): Promise<string> {
+    // Reject invalid files before anything is translated
+    JSON.parse(content);
+
+    const containers: Array<{ path: string; array: boolean; index: number; name?: string }> = [];
+    const elementPath = (): string => {
+      const container = containers[containers.length - 1];
+      if (!container) return '';
+      if (container.array) return `${container.path}[${container.index}]`;
+      return container.path ? `${container.path}.${container.name}` : container.name!;
+    };
+
+    const output: string[] = [];
+    let copiedUpTo = 0;
+    for (let position = 0; position < content.length; position++) {
+      const char = content[position];
+      const container = containers[containers.length - 1];
+
+      if (char === '"') {
+        const end = JsonText.stringEnd(content, position);
+        const value: string = JSON.parse(content.slice(position, end));
+        if (container && !container.array && container.name === undefined) {
+          container.name = value;
+        } else {
+          const translated = Placeholders.join((await translator.translate(elementPath(), value)).parts);
+          if (translated !== value) {
+            output.push(content.slice(copiedUpTo, position), JSON.stringify(translated));
+            copiedUpTo = end;
+          }
+        }
+        position = end - 1;
+      } else if (char === '{' || char === '[') {
+        containers.push({ path: elementPath(), array: char === '[', index: 0 });
+      } else if (char === '}' || char === ']') {
+        containers.pop();
+      } else if (char === ',' && container) {
+        if (container.array) {
+          container.index++;
+        } else {
+          container.name = undefined;
+        }
+      }
+    }
+
+    output.push(content.slice(copiedUpTo));
+    return output.join('');
+  }
+
+  /**
+   * String values in a YAML document; messages to review get a trailing comment
+   */
+  private static async translateYaml(content: string, translator: I18nTranslator): Promise<string> {
+    const document = YAML.parseDocument(content);
+    const messages: Array<{ node: YAML.Scalar; key: string }> = [];
+
+    YAML.visit(document, {
+      Scalar(key, node, path) {
+        if (key === 'key' || typeof node.value !== 'string') return;
+        const names = path
+          .filter(YAML.isPair)
+          .map(pair => String(YAML.isScalar(pair.key) ? pair.key.value : pair.key));
+        messages.push({ node, key: names.join('.') + (typeof key === 'number' ? `[${key}]` : '') });
+      }
+    });
+
+    for (const { node, key } of messages) {
+      const message = await translator.translate(key, node.value as string);
+      node.value = Placeholders.join(message.parts);
+      const review = this.reviewNote(message);
+      if (review) {
+        // Keep a comment the message already had
+        node.comment = node.comment ? `${node.comment}; ${review}` : ` ${review}`;
+      }
+    }
+
+    return document.toString();
+  }
+
+  /**
+   * gettext catalogs: msgstr gets the converted msgid, messages to review are flagged
+   * fuzzy, and the header is switched to Japanese, which has a single plural form
+   */
+  private static async translatePo(content: string, translator: I18nTranslator): Promise<string> {
+    const blocks = content.split(/(\r?\n[ \t]*\r?\n)/);
+    const output: string[] = [];
+
+    for (const [index, block] of blocks.entries()) {
+      // Odd indices are the blank lines between entries
+      output.push(index % 2 === 1 ? block : await this.translatePoEntry(block, translator));
+    }
+    return output.join('');
+  }
+
+  private static async translatePoEntry(block: string, translator: I18nTranslator): Promise<string> {
+    const lines = block.split(/\r?\n/);
+    const fields = PoEntry.parseFields(lines);
+    const msgid = fields.get('msgid');
+    if (!msgid) {
+      return block;
+    }
+
+    if (msgid.value === '') {
+      return PoEntry.setHeaderLanguage(lines).join('\n');
+    }
+
+    const context = fields.get('msgctxt')?.value;
+    const key = context ? `${context}|${msgid.value}` : msgid.value;
+    const plural = fields.get('msgid_plural');
+
+    const message = await translator.translate(key, msgid.value);
+    const pluralMessage = plural ? await translator.translate(`${key} (plural)`, plural.value) : undefined;
+    const review = message.status === 'review' || pluralMessage?.status === 'review';
+    const untranslated = message.status === 'untouched' || pluralMessage?.status === 'untouched';
+    const translation = (translated: TranslatedMessage) => untranslated ? '' : Placeholders.join(translated.parts);
+
+    const msgstr = plural
+      ? [`msgstr[0] ${PoEntry.quote(translation(pluralMessage!))}`]
+      : [`msgstr ${PoEntry.quote(translation(message))}`];
+
+    return PoEntry.setFuzzy(PoEntry.replaceTranslations(lines, msgstr), review).join('\n');
+  }
+
+  /**
+   * XLIFF 1.2 trans-units and 2.0 segments. Inline elements such as <x id="1"/> are kept
+   * as placeholders. 1.2 targets get a state of translated, needs-review-translation or
+   * needs-translation; 2.0 segments are translated or initial.
+   */
+  private static async translateXliff(content: string, translator: I18nTranslator): Promise<string> {
+    const isVersion2 = /<xliff\b[^>]*\bversion\s*=\s*["']2/.test(content);
+    const unitPattern = isVersion2
+      ? /(<unit\b[^>]*>)([\s\S]*?)(<\/unit>)/g
+      : /(<trans-unit\b[^>]*>)([\s\S]*?)(<\/trans-unit>)/g;
+
+    let output = '';
+    let position = 0;
+    for (const match of content.matchAll(unitPattern)) {
+      const [, open, body, close] = match;
+      const id = open.match(/\bid\s*=\s*["']([^"']*)["']/)?.[1] ?? String(match.index);
+      output += content.slice(position, match.index) + open + await this.translateXliffUnit(id, body, isVersion2, translator) + close;
+      position = match.index! + match[0].length;
+    }
+    output += content.slice(position);
+
+    return isVersion2
+      ? Xliff.setAttribute(output, /<xliff\b[^>]*>/, 'trgLang', TARGET_LANGUAGE)
+      : Xliff.setAttribute(output, /<file\b[^>]*>/g, 'target-language', TARGET_LANGUAGE);
+  }
+
+  private static async translateXliffUnit(id: string, body: string, isVersion2: boolean, translator: I18nTranslator): Promise<string> {
+    const translateSource = async (unitBody: string, key: string): Promise<{ body: string; message?: TranslatedMessage }> => {
+      const source = unitBody.match(/([ \t]*)<source\b[^>]*>([\s\S]*?)<\/source>/);
+      if (!source) {
+        return { body: unitBody };
+      }
+
+      const message = await translator.translateParts(key, Xliff.splitInline(source[2]));
+      const state = isVersion2 ? undefined
+        : message.status === 'untouched' ? 'needs-translation'
+          : message.status === 'review' ? 'needs-review-translation' : 'translated';
+      const target = `<target${state ? ` state="${state}"` : ''}>${Xliff.joinInline(message.parts)}</target>`;
+
+      const withoutTarget = unitBody.replace(/\s*<target\b[^>]*\/>|\s*<target\b[^>]*>[\s\S]*?<\/target>/, '');
+      const sourceEnd = withoutTarget.indexOf('</source>') + '</source>'.length;
+      return {
+        body: withoutTarget.slice(0, sourceEnd) + `\n${source[1]}${target}` + withoutTarget.slice(sourceEnd),
+        message
+      };
+    };
+
+    if (!isVersion2) {
+      return (await translateSource(body, id)).body;
+    }
+
+    // A 2.0 unit holds one or more segments, each with its own source and state
+    let output = '';
+    let position = 0;
+    let segmentIndex = 0;
+    for (const match of body.matchAll(/(<segment\b[^>]*>)([\s\S]*?)(<\/segment>)/g)) {
+      const [, open, segmentBody, close] = match;
+      const key = segmentIndex === 0 ? id : `${id}#${segmentIndex + 1}`;
+      const { body: translatedBody, message } = await translateSource(segmentBody, key);
+      const state = message?.status === 'converted' || message?.status === 'skipped' ? 'translated' : 'initial';
+      output += body.slice(position, match.index) + Xliff.setAttribute(open, /<segment\b[^>]*>/, 'state', state) + translatedBody + close;
+      position = match.index! + match[0].length;
+      segmentIndex++;
+    }
+    return output + body.slice(position);
+  }
+
+  private static reviewNote(message: TranslatedMessage): string | undefined {
+    if (message.status === 'review' || message.status === 'untouched') {
+      return `review: ${message.reason}`;
+    }
+    return undefined;
+  }
+}
+
+interface PoField {
+  value: string;
+  start: number;    // First line of the field
+  end: number;      // Line after its last continuation line
+}
+
+/**
+ * Line-level edits of one gettext catalog entry
+ */
+class PoEntry {
+  /**
+   * Fields such as msgid and msgstr[0] with their unescaped values and line ranges
+   */
+  static parseFields(lines: string[]): Map<string, PoField> {
+    const fields = new Map<string, PoField>();
+    let current: { name: string; field: PoField } | null = null;
+
+    lines.forEach((line, index) => {
+      const keyword = line.match(/^(msgctxt|msgid_plural|msgid|msgstr(?:\[\d+\])?)\s+"(.*)"\s*$/);
+      if (keyword) {
+        current = { name: keyword[1], field: { value: this.unquote(keyword[2]), start: index, end: index + 1 } };
+        fields.set(current.name, current.field);
+        return;
+      }
+
+      const continuation = line.match(/^\s*"(.*)"\s*$/);
+      if (continuation && current) {
+        current.field.value += this.unquote(continuation[1]);
+        current.field.end = index + 1;
+        return;
+      }
+      current = null;
+    });
+
+    return fields;
+  }
+
+  /**
+   * Replace all msgstr fields with the given lines
+   */
+  static replaceTranslations(lines: string[], msgstr: string[]): string[] {
+    const fields = this.parseFields(lines);
+    const ranges = [...fields.entries()].filter(([name]) => name.startsWith('msgstr')).map(([, field]) => field);
+    const firstStart = Math.min(...ranges.map(range => range.start));
+
+    if (ranges.length === 0) {
+      return [...lines, ...msgstr];
+    }
+    return lines.flatMap((line, index) => {
+      if (index === firstStart) return msgstr;
+      return ranges.some(range => index >= range.start && index < range.end) ? [] : [line];
+    });
+  }
+
+  /**
+   * Add or remove the fuzzy flag, keeping other flags such as c-format
+   */
+  static setFuzzy(lines: string[], fuzzy: boolean): string[] {
+    const flagIndex = lines.findIndex(line => line.startsWith('#,'));
+    const flags = flagIndex >= 0
+      ? lines[flagIndex].slice(2).split(',').map(flag => flag.trim()).filter(flag => flag.length > 0)
+      : [];
+    const updated = fuzzy ? [...new Set(['fuzzy', ...flags])] : flags.filter(flag => flag !== 'fuzzy');
+    const flagLine = updated.length > 0 ? [`#, ${updated.join(', ')}`] : [];
+
+    if (flagIndex >= 0) {
+      return [...lines.slice(0, flagIndex), ...flagLine, ...lines.slice(flagIndex + 1)];
+    }
+
+    // Flags follow translator, extracted and reference comments and precede #| lines
+    const insertAt = lines.findIndex(line => !line.startsWith('#') || line.startsWith('#|'));
+    const position = insertAt >= 0 ? insertAt : lines.length;
+    return [...lines.slice(0, position), ...flagLine, ...lines.slice(position)];
+  }
+
+  static setHeaderLanguage(lines: string[]): string[] {
+    return lines.map(line => line
+      .replace(/^"Language: [^"\\]*\\n"/, `"Language: ${TARGET_LANGUAGE}\\n"`)
+      .replace(/^"Plural-Forms: [^"\\]*\\n"/, '"Plural-Forms: nplurals=1; plural=0;\\n"'));
+  }
+
+  static quote(value: string): string {
+    return JSON.stringify(value);
+  }
+
+  private static unquote(value: string): string {
+    return value.replace(/\\(["\\ntr])/g, (_, char: string) =>
+      char === 'n' ? '\n' : char === 't' ? '\t' : char === 'r' ? '\r' : char);
+  }
+}
+
+/**
+ * Scanning of JSON source text
+ */
+class JsonText {
+  /**
+   * Index just past the closing quote of the string starting at start
+   */
+  static stringEnd(content: string, start: number): number {
+    let position = start + 1;
+    while (position < content.length && content[position] !== '"') {
+      position += content[position] === '\\' ? 2 : 1;
+    }
+    return position + 1;
+  }
+}
+
+const XML_ENTITIES: Record<string, string> = { '&lt;': '<', '&gt;': '>', '&amp;': '&', '&quot;': '"', '&apos;': "'" };
+
+/**
+ * Text-level edits of XLIFF markup
+ */
+class Xliff {
+  /**
+   * Split source content into text and inline elements, with entities in the text decoded
+   */
+  static splitInline(content: string): MessagePart[] {
+    return content.split(/(<[^<>]+>)/)
+      .filter(piece => piece.length > 0)
+      .flatMap(piece => piece.startsWith('<')
+        ? [{ text: piece, placeholder: true }]
+        : Placeholders.split(this.decode(piece)));
+  }
+
+  static joinInline(parts: MessagePart[]): string {
+    return parts.map(part => part.placeholder && part.text.startsWith('<') ? part.text : this.encode(part.text)).join('');
+  }
+
+  /**
+   * Set an attribute on every tag the pattern matches, replacing any existing value
+   */
+  static setAttribute(content: string, tagPattern: RegExp, name: string, value: string): string {
+    return content.replace(tagPattern, tag => {
+      const attribute = new RegExp(`\\s${name}\\s*=\\s*["'][^"']*["']`);
+      if (attribute.test(tag)) {
+        return tag.replace(attribute, ` ${name}="${value}"`);
+      }
+      return tag.replace(/\s*(\/?)>$/, ` ${name}="${value}"$1>`);
+    });
+  }
+
+  private static decode(text: string): string {
+    return text.replace(/&(?:lt|gt|amp|quot|apos);|&#(\d+);|&#x([0-9a-f]+);/gi, (entity, decimal?: string, hex?: string) =>
+      decimal ? String.fromCodePoint(parseInt(decimal, 10))
+        : hex ? String.fromCodePoint(parseInt(hex, 16))
+          : XML_ENTITIES[entity]);
+  }
+
+  private static encode(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  }
+}
@@ -0,0 +1,282 @@
+import { createInterface, type CompleterResult } from 'readline';
+import { existsSync, readFileSync } from 'fs';
+import chalk from 'chalk';
+import { type EnglishToKatakanaConverter } from '../converter.js';
+import { UserConfig } from '../config/user-config.js';
+import { printMatches, printPhraseResult, printResults, printReverseResult } from '../output/printer.js';
+import { JapaneseConverter } from '../utils/japanese-converter.js';
+import { writeFileAtomic } from '../utils/atomic-write.js';
+import type { KatakanaStyleRule, PhraseJoiner, RomajiStyle, SearchMode } from '../types.js';
+
+const HISTORY_SIZE = 500;
+
+export interface SessionSettings {
+  mode: SearchMode;
+  fuzzy: boolean;
+  verbose: boolean;
+  maxResults: number;
+  romajiStyle: RomajiStyle;
+  phrase: boolean;
+  joiner: PhraseJoiner;
+  style: KatakanaStyleRule[];
+}
+
+const COMMAND_HELP: Array<[string, string]> = [
+  [':mode <strict|normal|broad>', 'Change the search mode'],
+  [':fuzzy [on|off]', 'Toggle fuzzy matching'],
+  [':verbose [on|off]', 'Toggle hiragana, romaji and detailed meanings'],
+  [':phrase [on|off]', 'Toggle phrase conversion for multi-word input'],
+  [':max <number>', 'Maximum number of results'],
+  [':romaji <style>', 'Romanization: hepburn, hepburn-doubled, kunrei, nihon'],
+  [':joiner <nakaguro|space>', 'Separator between phrase parts'],
+  [':style <rules|none>', 'Katakana style guide rules: microsoft, jis, no-vu'],
+  [':reverse <kana>', 'Look up English meanings (plain kana input does this too)'],
+  [':settings', 'Show the current settings'],
+  [':help', 'Show this help'],
+  [':quit', 'Leave interactive mode (or press Ctrl+D)']
+];
+
+const COMMANDS = [...COMMAND_HELP.map(([usage]) => usage.split(' ')[0]), ':exit', ':q'];
+
+/**
+ * Read-eval-print loop that keeps one converter, and so one loaded dictionary,
+ * for any number of lookups
+ */
+export class InteractiveSession {
+  private history: string[];
+
+  constructor(
+    private converter: EnglishToKatakanaConverter,
+    private settings: SessionSettings,
+    private historyPath: string = UserConfig.getHistoryPath()
+  ) {
+    this.history = this.loadHistory();
+  }
+
+  async start(): Promise<void> {
+    const rl = createInterface({
+      input: process.stdin,
+      output: process.stdout,
+      // readline expects the most recent entry first
+      history: [...this.history].reverse(),
+      historySize: HISTORY_SIZE,
+      removeHistoryDuplicates: true,
+      completer: (line: string, callback: (error: Error | null, result: CompleterResult) => void) => {
+        this.complete(line).then(result => callback(null, result), error => callback(error, [[], line]));
+      }
+    });
+
+    console.log(chalk.gray('Type a word to convert it, kana to look it up in reverse, or :help for commands.\n'));
+    rl.setPrompt(this.prompt());
+    rl.prompt();
+
+    for await (const line of rl) {
+      const input = line.trim();
+      if (input.length > 0) {
+        this.history.push(input);
+      }
+
+      try {
+        if (!(await this.handleInput(input))) {
+          break;
+        }
+      } catch (error) {
+        console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+      }
+
+      rl.setPrompt(this.prompt());
+      rl.prompt();
+    }
+
+    rl.close();
+    this.saveHistory();
+  }
+
+  /**
+   * Handle one line of input; returns false when the session should end
+   */
+  private async handleInput(input: string): Promise<boolean> {
+    if (input.length === 0) {
+      return true;
+    }
+
+    if (input.startsWith(':')) {
+      const [command, ...args] = input.split(/\s+/);
+      return this.runCommand(command, args.join(' '));
+    }
+
+    if (JapaneseConverter.isKana(input.replace(/・/g, ''))) {
+      await this.lookupReverse(input);
+    } else {
+      await this.lookup(input);
+    }
+    return true;
+  }
+
+  private async lookup(word: string): Promise<void> {
+    const { mode, fuzzy, verbose, maxResults, romajiStyle, phrase, joiner, style } = this.settings;
+    const results = await this.converter.convert(word, {
+      mode,
+      fuzzy,
+      maxResults,
+      romajiStyle,
+      joiner,
+      style,
+      phrase: phrase && /\s/.test(word)
+    });
+
+    if (results.length > 0 && results[0].segments) {
+      console.log(chalk.green(`\nPhrase "${word}":\n`));
+      printPhraseResult(results[0], verbose);
+      return;
+    }
+
+    if (results.length === 0 || results.every(result => result.source === 'generated')) {
+      console.log(chalk.red(`No results found for "${word}"`));
+      if (results.length > 0) {
+        console.log(chalk.yellow('\nBest guess from English spelling (not in the dictionary):\n'));
+        printResults(results, verbose);
+      }
+      const corrections = await this.converter.didYouMean(word);
+      if (corrections.length > 0) {
+        console.log(chalk.cyan(`Did you mean: ${corrections.join(', ')}?`));
+      }
+      if (mode !== 'broad' || !fuzzy) {
+        console.log(chalk.gray(`Try ${mode === 'strict' ? ':mode normal' : ':mode broad'}${fuzzy ? '' : ' or :fuzzy on'}\n`));
+      }
+      return;
+    }
+
+    printMatches(word, results, verbose);
+  }
+
+  private async lookupReverse(kana: string): Promise<void> {
+    const { mode, fuzzy, maxResults, romajiStyle } = this.settings;
+    const results = await this.converter.reverse(kana, { mode, fuzzy, maxResults, romajiStyle });
+
+    if (results.length === 0) {
+      console.log(chalk.red(`No entries found for "${kana}"\n`));
+      return;
+    }
+
+    console.log(chalk.green(`\nEnglish for "${kana}":\n`));
+    results.forEach((result, index) => printReverseResult(result, index + 1));
+  }
+
+  private async runCommand(command: string, argument: string): Promise<boolean> {
+    switch (command) {
+      case ':mode':
+        this.settings.mode = UserConfig.parseValue('mode', argument) as SearchMode;
+        break;
+      case ':fuzzy':
+        this.settings.fuzzy = this.parseToggle(argument, this.settings.fuzzy);
+        break;
+      case ':verbose':
+        this.settings.verbose = this.parseToggle(argument, this.settings.verbose);
+        break;
+      case ':phrase':
+        this.settings.phrase = this.parseToggle(argument, this.settings.phrase);
+        break;
+      case ':max':
+        this.settings.maxResults = UserConfig.parseValue('max', argument) as number;
+        break;
+      case ':romaji':
+        this.settings.romajiStyle = UserConfig.parseValue('romajiStyle', argument) as RomajiStyle;
+        break;
+      case ':joiner':
+        this.settings.joiner = UserConfig.parseValue('joiner', argument) as PhraseJoiner;
+        break;
+      case ':style':
+        this.settings.style = UserConfig.parseValue('style', argument) as KatakanaStyleRule[];
+        break;
+      case ':reverse':
+        await this.lookupReverse(argument);
+        return true;
+      case ':settings':
+        break;
+      case ':help':
+        this.printHelp();
+        return true;
+      case ':quit':
+      case ':exit':
+      case ':q':
+        return false;
+      default:
+        console.log(chalk.red(`Unknown command "${command}". Type :help for the list of commands.`));
+        return true;
+    }
+
+    this.printSettings();
+    return true;
+  }
+
+  /**
+   * "on"/"off" and the other boolean spellings set a flag; no argument flips it
+   */
+  private parseToggle(argument: string, current: boolean): boolean {
+    const value = argument.toLowerCase();
+    if (value.length === 0) return !current;
+    if (['on', 'true', 'yes', '1'].includes(value)) return true;
+    if (['off', 'false', 'no', '0'].includes(value)) return false;
+    throw new Error(`Expected on or off, got "${argument}"`);
+  }
+
+  private async complete(line: string): Promise<CompleterResult> {
+    if (line.startsWith(':')) {
+      return [COMMANDS.filter(command => command.startsWith(line)), line];
+    }
+
+    // Complete the last word from the dictionary's English keys
+    const lastWord = line.split(/\s+/).pop() ?? '';
+    if (lastWord.length < 2) {
+      return [[], line];
+    }
+    const suggestions = await this.converter.searchSuggestions(lastWord);
+    const prefix = line.slice(0, line.length - lastWord.length);
+    return [suggestions.map(suggestion => prefix + suggestion), line];
+  }
+
+  private prompt(): string {
+    const flags = [
+      this.settings.mode,
+      this.settings.fuzzy ? 'fuzzy' : '',
+      this.settings.phrase ? 'phrase' : ''
+    ].filter(flag => flag.length > 0);
+    return chalk.cyan(`en-ka[${flags.join(',')}]> `);
+  }
+
+  private printSettings(): void {
+    const { mode, fuzzy, verbose, maxResults, romajiStyle, phrase, joiner, style } = this.settings;
+    const onOff = (value: boolean) => (value ? 'on' : 'off');
+    console.log(chalk.gray(
+      `mode ${mode}, fuzzy ${onOff(fuzzy)}, verbose ${onOff(verbose)}, max ${maxResults}, ` +
+      `romaji ${romajiStyle}, phrase ${onOff(phrase)}, joiner ${joiner}, style ${style.join(',') || 'none'}`
+    ));
+  }
+
+  private printHelp(): void {
+    console.log(chalk.cyan('Commands:'));
+    for (const [usage, description] of COMMAND_HELP) {
+      console.log(`  ${usage.padEnd(30)} ${chalk.gray(description)}`);
+    }
+  }
+
+  private loadHistory(): string[] {
+    if (!existsSync(this.historyPath)) {
+      return [];
+    }
+    try {
+      return readFileSync(this.historyPath, 'utf-8').split('\n').filter(line => line.length > 0);
+    } catch {
+      return [];
+    }
+  }
+
+  private saveHistory(): void {
+    try {
+      writeFileAtomic(this.historyPath, this.history.slice(-HISTORY_SIZE).join('\n') + '\n');
+    } catch {
+      // History is a convenience; never fail the session over it
+    }
+  }
+}
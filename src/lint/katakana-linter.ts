@@ -0,0 +1,255 @@
+import { existsSync, readFileSync } from 'fs';
+import { extname } from 'path';
+import type { IndexedDictionary, JMDictEntry, KatakanaStyleRule } from '../types.js';
+import { JapaneseConverter } from '../utils/japanese-converter.js';
+import { KatakanaStyle } from '../utils/katakana-style.js';
+import { EditDistance } from '../utils/edit-distance.js';
+
+// inconsistent: another spelling of the word is used in the file set
+// variant: not a dictionary spelling, but a variant of one
+// glossary: a spelling the team glossary replaces
+// style: does not follow the --style rules
+// half-width: half-width katakana
+export type LintIssueKind = 'inconsistent' | 'variant' | 'glossary' | 'style' | 'half-width';
+
+export interface LintIssue {
+  file: string;
+  line: number;       // 1-based
+  column: number;     // 1-based, in UTF-16 code units
+  word: string;
+  suggestion: string;
+  kind: LintIssueKind;
+  message: string;
+}
+
+export interface LintOptions {
+  style?: KatakanaStyleRule[];
+}
+
+interface Occurrence {
+  file: string;
+  line: number;
+  column: number;
+  word: string;       // As written
+  spelling: string;   // Full-width form
+}
+
+// Katakana runs; ・ separates words and is not part of one
+const KATAKANA_RUN = /[ァ-ヺー-ヾｦ-ﾟ]+/g;
+
+const MARKDOWN_EXTENSIONS = ['.md', '.markdown'];
+
+/**
+ * Finds katakana loanwords spelled more than one way across a set of files, and
+ * spellings that differ from the dictionary, the team glossary or a style guide
+ */
+export class KatakanaLinter {
+  private dictionarySpellings = new Map<string, string[]>();   // Loose key to dictionary spellings
+  private glossaryReplacements = new Map<string, string>();     // Replaced spelling to glossary spelling
+  private glossarySpellings = new Set<string>();
+
+  constructor(private dictionary: IndexedDictionary, private options: LintOptions = {}) {
+    for (const word of dictionary.katakanaWords) {
+      const key = this.looseKey(word);
+      const spellings = this.dictionarySpellings.get(key);
+      if (spellings) {
+        spellings.push(word);
+      } else {
+        this.dictionarySpellings.set(key, [word]);
+      }
+    }
+
+    for (const entry of dictionary.entries.values()) {
+      if (!entry.glossary) continue;
+      const [{ text: spelling }] = entry.kana;
+      this.glossarySpellings.add(spelling);
+      for (const replaced of entry.glossary.preferredOver ?? []) {
+        this.glossaryReplacements.set(replaced, spelling);
+      }
+    }
+  }
+
+  lintFiles(paths: string[]): LintIssue[] {
+    const files = paths.map(path => {
+      if (!existsSync(path)) {
+        throw new Error(`File not found: ${path}`);
+      }
+      return { path, content: readFileSync(path, 'utf-8') };
+    });
+    return this.lint(files);
+  }
+
+  /**
+   * Lint file contents together, so a word spelled differently in two files is reported
+   */
+  lint(files: Array<{ path: string; content: string }>): LintIssue[] {
+    const occurrences = files.flatMap(file => this.extract(file.path, file.content));
+    const preferred = this.preferredSpellings(occurrences);
+    const issues: LintIssue[] = [];
+
+    for (const occurrence of occurrences) {
+      const issue = this.check(occurrence, preferred);
+      if (issue) {
+        issues.push(issue);
+      }
+    }
+
+    return issues;
+  }
+
+  private extract(path: string, content: string): Occurrence[] {
+    const occurrences: Occurrence[] = [];
+    const skipCodeBlocks = MARKDOWN_EXTENSIONS.includes(extname(path).toLowerCase());
+    let inCodeBlock = false;
+
+    content.split(/\r?\n/).forEach((text, index) => {
+      if (skipCodeBlocks && /^\s*(```|~~~)/.test(text)) {
+        inCodeBlock = !inCodeBlock;
+        return;
+      }
+      if (inCodeBlock) return;
+
+      for (const match of text.matchAll(KATAKANA_RUN)) {
+        const word = match[0];
+        if (word.replace(/[ーｰ]/g, '').length < 2) continue;
+
+        occurrences.push({
+          file: path,
+          line: index + 1,
+          column: match.index! + 1,
+          word,
+          spelling: JapaneseConverter.toFullWidthKatakana(word)
+        });
+      }
+    });
+
+    return occurrences;
+  }
+
+  /**
+   * Spelling to use for each group of variants in the file set: the glossary's, then one
+   * that follows the style rules, then the most used dictionary spelling, then the most used
+   */
+  private preferredSpellings(occurrences: Occurrence[]): Map<string, string> {
+    const counts = new Map<string, Map<string, number>>();
+    for (const { spelling } of occurrences) {
+      const key = this.looseKey(spelling);
+      const spellings = counts.get(key) ?? new Map<string, number>();
+      spellings.set(spelling, (spellings.get(spelling) ?? 0) + 1);
+      counts.set(key, spellings);
+    }
+
+    const preferred = new Map<string, string>();
+    for (const [key, spellingCounts] of counts) {
+      const ranked = [...spellingCounts.entries()]
+        .sort(([a, aCount], [b, bCount]) =>
+          Number(this.glossarySpellings.has(b)) - Number(this.glossarySpellings.has(a)) ||
+          Number(this.followsStyle(b)) - Number(this.followsStyle(a)) ||
+          Number(this.dictionary.katakanaWords.has(b)) - Number(this.dictionary.katakanaWords.has(a)) ||
+          bCount - aCount);
+      preferred.set(key, ranked[0][0]);
+    }
+    return preferred;
+  }
+
+  /**
+   * The most relevant problem with one occurrence, if any
+   */
+  private check(occurrence: Occurrence, preferred: Map<string, string>): LintIssue | null {
+    const { word, spelling } = occurrence;
+    const issue = (kind: LintIssueKind, suggestion: string, message: string): LintIssue => ({
+      file: occurrence.file,
+      line: occurrence.line,
+      column: occurrence.column,
+      word,
+      suggestion,
+      kind,
+      message
+    });
+
+    const glossarySpelling = this.glossaryReplacements.get(spelling);
+    const groupSpelling = preferred.get(this.looseKey(spelling))!;
+    const isInconsistent = groupSpelling !== spelling && this.areVariants(spelling, groupSpelling);
+
+    if (word !== spelling) {
+      return issue('half-width', glossarySpelling ?? (isInconsistent ? groupSpelling : spelling), 'half-width katakana');
+    }
+
+    if (glossarySpelling) {
+      return issue('glossary', glossarySpelling, `the team glossary prefers ${glossarySpelling}`);
+    }
+
+    if (isInconsistent) {
+      return issue('inconsistent', groupSpelling, `also written ${groupSpelling} in these files`);
+    }
+
+    const styled = KatakanaStyle.apply(spelling, this.options.style ?? [], this.englishOf(spelling), this.spellingsOf(spelling));
+    if (styled !== spelling && !this.glossarySpellings.has(spelling)) {
+      return issue('style', styled, `the ${this.options.style!.join(', ')} style writes ${styled}`);
+    }
+
+    if (!this.dictionary.katakanaWords.has(spelling)) {
+      const dictionarySpelling = this.closestDictionarySpelling(spelling);
+      if (dictionarySpelling) {
+        return issue('variant', dictionarySpelling, `not in the dictionary, which has ${dictionarySpelling}`);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Two spellings with the same loose key are variants unless both are dictionary words
+   * of different entries, such as ビル (building) and ビール (beer)
+   */
+  private areVariants(a: string, b: string): boolean {
+    const aEntries = this.dictionary.readings.get(a);
+    const bEntries = this.dictionary.readings.get(b);
+    if (!aEntries || !bEntries) {
+      return true;
+    }
+    return aEntries.some(entryId => bEntries.includes(entryId));
+  }
+
+  private closestDictionarySpelling(spelling: string): string | undefined {
+    const candidates = this.dictionarySpellings.get(this.looseKey(spelling)) ?? [];
+    return candidates
+      .map(candidate => ({ candidate, distance: EditDistance.levenshtein(spelling, candidate) }))
+      .sort((a, b) => a.distance - b.distance)[0]?.candidate;
+  }
+
+  private followsStyle(spelling: string): boolean {
+    const rules = this.options.style ?? [];
+    return rules.length > 0 && KatakanaStyle.apply(spelling, rules, this.englishOf(spelling), this.spellingsOf(spelling)) === spelling;
+  }
+
+  /**
+   * First English gloss of the dictionary entry for a spelling or its closest variant,
+   * which the style rules need to tell -er words from others
+   */
+  private englishOf(spelling: string): string | undefined {
+    const entry = this.entryOf(spelling);
+    return entry?.sense[0]?.gloss.find(gloss => !gloss.lang || gloss.lang === 'eng')?.text.replace(/\([^)]*\)/g, '').trim();
+  }
+
+  /**
+   * Katakana readings of the dictionary entry for a spelling or its closest variant, which
+   * keep the style rules to established spellings
+   */
+  private spellingsOf(spelling: string): string[] | undefined {
+    return this.entryOf(spelling)?.kana.map(kana => kana.text).filter(text => JapaneseConverter.isKatakana(text));
+  }
+
+  private entryOf(spelling: string): JMDictEntry | undefined {
+    const reading = this.dictionary.katakanaWords.has(spelling) ? spelling : this.closestDictionarySpelling(spelling);
+    const entryId = reading ? this.dictionary.readings.get(reading)?.[0] : undefined;
+    return entryId ? this.dictionary.entries.get(entryId) : undefined;
+  }
+
+  /**
+   * Key shared by spellings that differ only in ー and ヴ, e.g. サーバ and サーバー
+   */
+  private looseKey(spelling: string): string {
+    return KatakanaStyle.variantKey(spelling).replace(/ー/g, '');
+  }
+}
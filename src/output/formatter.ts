@@ -0,0 +1,240 @@
+import type { BatchResult, ConversionResult, ReverseResult, WordOrigin } from '../types.js';
+import { LanguageNames } from '../utils/language-names.js';
+
+export type OutputFormat = 'text' | 'json' | 'ndjson' | 'tsv' | 'csv';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['text', 'json', 'ndjson', 'tsv', 'csv'];
+
+/**
+ * Serializable view of a conversion result; tables join its lists into one cell
+ */
+interface ResultRecord {
+  query: string;
+  rank: number;
+  katakana: string;
+  hiragana: string | null;
+  kanji: string | null;
+  romaji: string | null;
+  meaning: string;
+  common: boolean;
+  score: number | null;
+  matchType: string | null;
+  source: string;
+  baseForm: string | null;
+  origin: WordOrigin[] | null;
+  wasei: boolean;
+  matchedTerm: string | null;
+  senseIndex: number | null;
+  nameTypes: string[] | null;
+  note: string | null;
+  preferredOver: string[] | null;
+  variants: string[] | null;
+  senses?: string[];
+  adjustments?: Array<{ reason: string; factor: number }>;
+  segments?: Array<{ text: string; katakana: string; source: string }>;
+}
+
+// Senses, score adjustments and phrase segments only appear in JSON and NDJSON output
+const RESULT_COLUMNS: Array<Exclude<keyof ResultRecord, 'senses' | 'adjustments' | 'segments'>> = [
+  'query', 'rank', 'katakana', 'hiragana', 'kanji', 'romaji', 'meaning', 'common', 'score', 'matchType', 'source', 'baseForm',
+  'origin', 'wasei', 'matchedTerm', 'senseIndex',
+  'nameTypes', 'note', 'preferredOver', 'variants'
+];
+
+const REVERSE_COLUMNS = ['query', 'rank', 'reading', 'kanji', 'romaji', 'meanings', 'common', 'score', 'matchType'];
+
+type Cell = string | number | boolean | null;
+
+/**
+ * Serializes results into machine-readable output formats
+ */
+export class OutputFormatter {
+  static isOutputFormat(format: string): format is OutputFormat {
+    return OUTPUT_FORMATS.includes(format as OutputFormat);
+  }
+
+  /**
+   * Format the results of a single query
+   */
+  static formatResults(query: string, results: ConversionResult[], format: OutputFormat): string {
+    const records = results.map((result, index) => this.toRecord(query, result, index + 1));
+
+    switch (format) {
+      case 'json':
+        return JSON.stringify({ query, results: records.map(record => this.withoutQuery(record)) }, null, 2);
+      case 'ndjson':
+        return records.map(record => JSON.stringify(record)).join('\n');
+      case 'tsv':
+      case 'csv':
+        return this.formatTable(records, format);
+      default:
+        throw new Error(`Format "${format}" is not a machine-readable format`);
+    }
+  }
+
+  /**
+   * Format batch results; text output is one tab-separated row per term
+   */
+  static formatBatch(batchResults: BatchResult[], format: OutputFormat): string {
+    switch (format) {
+      case 'text':
+        return batchResults.map(batchResult => this.formatBatchRow(batchResult)).join('\n');
+      case 'json':
+        return JSON.stringify(batchResults.map(batchResult => ({
+          term: batchResult.term,
+          results: batchResult.results.map((result, index) =>
+            this.withoutQuery(this.toRecord(batchResult.term, result, index + 1))
+          )
+        })), null, 2);
+      default: {
+        const records = batchResults.flatMap(batchResult =>
+          batchResult.results.map((result, index) => this.toRecord(batchResult.term, result, index + 1))
+        );
+        return format === 'ndjson'
+          ? records.map(record => JSON.stringify(record)).join('\n')
+          : this.formatTable(records, format);
+      }
+    }
+  }
+
+  /**
+   * Format reverse lookup results; tabular formats join senses with "; "
+   */
+  static formatReverseResults(query: string, results: ReverseResult[], format: OutputFormat): string {
+    const records = results.map((result, index) => ({
+      rank: index + 1,
+      reading: result.reading,
+      kanji: result.kanji ?? null,
+      romaji: result.romaji ?? null,
+      meanings: result.meanings,
+      common: result.common,
+      score: result.score,
+      matchType: result.matchType
+    }));
+
+    switch (format) {
+      case 'json':
+        return JSON.stringify({ query, results: records }, null, 2);
+      case 'ndjson':
+        return records.map(record => JSON.stringify({ query, ...record })).join('\n');
+      case 'tsv':
+      case 'csv':
+        return [
+          this.formatRow(REVERSE_COLUMNS, format),
+          ...records.map(record => this.formatRow([
+            query, record.rank, record.reading, record.kanji, record.romaji,
+            record.meanings.join('; '), record.common, record.score, record.matchType
+          ], format))
+        ].join('\n');
+      default:
+        throw new Error(`Format "${format}" is not a machine-readable format`);
+    }
+  }
+
+  /**
+   * Format completions of a partial query and "did you mean" corrections of it
+   */
+  static formatSuggestions(partial: string, suggestions: string[], format: OutputFormat, didYouMean: string[] = []): string {
+    const rows = [
+      ...suggestions.map(suggestion => ({ suggestion, kind: 'completion' })),
+      ...didYouMean.map(suggestion => ({ suggestion, kind: 'correction' }))
+    ];
+    switch (format) {
+      case 'json':
+        return JSON.stringify({ query: partial, suggestions, didYouMean }, null, 2);
+      case 'ndjson':
+        return rows.map(row => JSON.stringify({ query: partial, ...row })).join('\n');
+      case 'tsv':
+      case 'csv':
+        return [
+          this.formatRow(['query', 'suggestion', 'kind'], format),
+          ...rows.map(row => this.formatRow([partial, row.suggestion, row.kind], format))
+        ].join('\n');
+      default:
+        throw new Error(`Format "${format}" is not a machine-readable format`);
+    }
+  }
+
+  private static formatBatchRow(batchResult: BatchResult): string {
+    const [best, ...alternatives] = batchResult.results;
+    return this.formatRow([
+      batchResult.term,
+      best?.katakana ?? '',
+      alternatives.map(result => result.katakana).join(', '),
+      best?.source === 'generated' ? '[GENERATED]' : best?.meaning ?? ''
+    ], 'tsv');
+  }
+
+  private static toRecord(query: string, result: ConversionResult, rank: number): ResultRecord {
+    return {
+      query,
+      rank,
+      katakana: result.katakana,
+      hiragana: result.hiragana ?? null,
+      kanji: result.kanji ?? null,
+      romaji: result.romaji ?? null,
+      meaning: result.meaning,
+      common: result.common,
+      score: result.score ?? null,
+      matchType: result.matchType ?? null,
+      source: result.source ?? 'dictionary',
+      baseForm: result.baseForm ?? null,
+      origin: result.origin ?? null,
+      wasei: result.origin?.some(origin => origin.wasei) ?? false,
+      matchedTerm: result.matchedTerm ?? null,
+      senseIndex: result.senseIndex ?? null,
+      nameTypes: result.nameTypes ?? null,
+      note: result.note ?? null,
+      preferredOver: result.preferredOver ?? null,
+      variants: result.variants ?? null,
+      ...(result.senses && { senses: result.senses }),
+      ...(result.adjustments && { adjustments: result.adjustments }),
+      ...(result.segments && {
+        segments: result.segments.map(segment => ({
+          text: segment.text,
+          katakana: segment.result.katakana,
+          source: segment.result.source ?? 'dictionary'
+        }))
+      })
+    };
+  }
+
+  private static withoutQuery(record: ResultRecord): Omit<ResultRecord, 'query'> {
+    const rest: Partial<ResultRecord> = { ...record };
+    delete rest.query;
+    return rest as Omit<ResultRecord, 'query'>;
+  }
+
+  private static formatTable(records: ResultRecord[], format: 'tsv' | 'csv'): string {
+    const lines = [this.formatRow(RESULT_COLUMNS, format)];
+    for (const record of records) {
+      lines.push(this.formatRow(RESULT_COLUMNS.map(column => this.tableCell(record, column)), format));
+    }
+    return lines.join('\n');
+  }
+
+  /**
+   * Table cell for a record column; origins are joined with "; ", other lists with ", "
+   */
+  private static tableCell(record: ResultRecord, column: typeof RESULT_COLUMNS[number]): Cell {
+    if (column === 'origin') {
+      return record.origin?.map(origin => LanguageNames.describe(origin)).join('; ') ?? null;
+    }
+    const value = record[column];
+    return Array.isArray(value) ? value.join(', ') : value;
+  }
+
+  private static formatRow(cells: Cell[], format: 'tsv' | 'csv'): string {
+    return cells.map(cell => this.formatCell(cell, format)).join(format === 'tsv' ? '\t' : ',');
+  }
+
+  private static formatCell(cell: Cell, format: 'tsv' | 'csv'): string {
+    const text = cell === null ? '' : String(cell);
+
+    if (format === 'tsv') {
+      return text.replace(/[\t\r\n]+/g, ' ');
+    }
+
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+}
@@ -0,0 +1,207 @@
+import chalk from 'chalk';
+import { type ConversionResult, type MatchType, type ReverseResult } from '../types.js';
+import { LanguageNames } from '../utils/language-names.js';
+import { NameSearch } from '../search/name-search.js';
+
+export function printFormatted(output: string): void {
+  if (output.length > 0) {
+    process.stdout.write(output + '\n');
+  }
+}
+
+const MATCH_TYPE_LABELS: Record<MatchType, string> = {
+  exact: 'the whole gloss',
+  primary: 'the first word of a gloss',
+  compound: 'a later word of a gloss',
+  description: 'a parenthesized note'
+};
+
+export function printResults(results: ConversionResult[], verbose: boolean, explain = false): void {
+  results.forEach((result, index) => {
+    if (verbose) {
+      printVerboseResult(result, index + 1, explain);
+    } else {
+      printSimpleResult(result, index + 1, explain);
+    }
+  });
+}
+
+/**
+ * Print dictionary results under a heading that notes any base form used for the lookup
+ */
+export function printMatches(query: string, results: ConversionResult[], verbose: boolean, explain = false): void {
+  const baseForm = results[0]?.baseForm;
+  console.log(chalk.green(`\nResults for "${query}"`) + (baseForm ? chalk.gray(` (matched base form "${baseForm}")`) : '') + chalk.green(':\n'));
+  printResults(results, verbose, explain);
+}
+
+function resultBadge(result: ConversionResult): string {
+  if (result.source === 'generated') {
+    return chalk.bgYellow.black(' GENERATED ');
+  }
+  if (result.source === 'names') {
+    return chalk.bgBlue(' NAME ');
+  }
+  if (result.source === 'glossary') {
+    return chalk.bgMagenta(' GLOSSARY ');
+  }
+  return result.common ? chalk.bgGreen(' COMMON ') : chalk.bgGray(' RARE ');
+}
+
+function printSimpleResult(result: ConversionResult, index: number, explain: boolean): void {
+  const commonBadge = resultBadge(result);
+  console.log(`${chalk.bold(index)}. ${chalk.magenta(result.katakana)} ${commonBadge}`);
+
+  if (result.kanji) {
+    console.log(`   ${chalk.gray('Kanji:')} ${result.kanji}`);
+  }
+
+  if (result.meaning) {
+    console.log(`   ${chalk.gray('Meaning:')} ${result.meaning}`);
+  }
+
+  printVariants(result);
+  printNameTypes(result);
+  printGlossaryDetails(result);
+
+  if (explain) {
+    printExplanation(result);
+  }
+
+  console.log();
+}
+
+function printVerboseResult(result: ConversionResult, index: number, explain: boolean): void {
+  const commonBadge = resultBadge(result);
+
+  console.log(`${chalk.bold(index)}. ${chalk.magenta.bold(result.katakana)} ${commonBadge}`);
+
+  if (result.hiragana) {
+    console.log(`   ${chalk.gray('Hiragana:')} ${result.hiragana}`);
+  }
+
+  if (result.kanji) {
+    console.log(`   ${chalk.gray('Kanji:')} ${result.kanji}`);
+  }
+
+  if (result.romaji) {
+    console.log(`   ${chalk.gray('Romaji:')} ${result.romaji}`);
+  }
+
+  if (result.senses && result.senses.length > 1) {
+    console.log(`   ${chalk.gray('Meanings:')}`);
+    result.senses.forEach((sense, senseIndex) => {
+      const line = `${senseIndex + 1}) ${sense}`;
+      console.log(senseIndex === result.senseIndex
+        ? `     ${chalk.bold(line)} ${chalk.green('← matched')}`
+        : `     ${chalk.gray(line)}`);
+    });
+  } else if (result.meaning) {
+    console.log(`   ${chalk.gray('Meaning:')} ${result.meaning}`);
+  }
+
+  printVariants(result);
+  printNameTypes(result);
+  printGlossaryDetails(result);
+
+  if (result.origin) {
+    const origins = result.origin.map(origin => LanguageNames.describe(origin)).join('; ');
+    console.log(`   ${chalk.gray('Origin:')} ${origins}`);
+  }
+
+  if (explain) {
+    printExplanation(result);
+  }
+
+  console.log();
+}
+
+function printVariants(result: ConversionResult): void {
+  if (result.variants && result.variants.length > 0) {
+    console.log(`   ${chalk.gray('Variants:')} ${result.variants.join(', ')}`);
+  }
+}
+
+function printNameTypes(result: ConversionResult): void {
+  if (result.nameTypes && result.nameTypes.length > 0) {
+    console.log(`   ${chalk.gray('Type:')} ${result.nameTypes.map(type => NameSearch.describeType(type)).join(', ')}`);
+  }
+}
+
+function printGlossaryDetails(result: ConversionResult): void {
+  if (result.note) {
+    console.log(`   ${chalk.gray('Note:')} ${result.note}`);
+  }
+  if (result.preferredOver && result.preferredOver.length > 0) {
+    console.log(`   ${chalk.gray('Preferred over:')} ${result.preferredOver.join(', ')}`);
+  }
+}
+
+/**
+ * Which index key matched, in which sense, and how the score was adjusted
+ */
+function printExplanation(result: ConversionResult): void {
+  if (result.source === 'generated') {
+    console.log(`   ${chalk.gray('Why:')} not in the dictionary; generated from English spelling rules`);
+    return;
+  }
+  if (result.matchType === undefined || result.score === undefined) {
+    return;
+  }
+  if (result.source === 'names') {
+    const nameMatch = result.matchType === 'exact' ? 'the whole name' : 'a word of the name';
+    console.log(`   ${chalk.gray('Why:')} "${result.matchedTerm ?? ''}" is ${nameMatch} in the name dictionary (${result.matchType})`);
+    console.log(`   ${chalk.gray('Score:')} ${result.score}`);
+    return;
+  }
+  if (result.source === 'glossary') {
+    console.log(`   ${chalk.gray('Why:')} "${result.matchedTerm ?? ''}" is in the team glossary, which ranks above the dictionary`);
+    return;
+  }
+
+  const sense = result.senseIndex !== undefined ? ` of sense ${result.senseIndex + 1}` : '';
+  console.log(`   ${chalk.gray('Why:')} "${result.matchedTerm}" is ${MATCH_TYPE_LABELS[result.matchType]}${sense} (${result.matchType})`);
+
+  const steps = [String(result.rankingFactors ? 100 : result.baseScore ?? result.score)];
+  for (const adjustment of [...result.rankingFactors ?? [], ...result.adjustments ?? []]) {
+    steps.push(`× ${Number(adjustment.factor.toFixed(2))} ${chalk.gray(`(${adjustment.reason})`)}`);
+  }
+  console.log(`   ${chalk.gray('Score:')} ${steps.join(' ')}${steps.length > 1 ? ` = ${result.score}` : ''}`);
+}
+
+export function printPhraseResult(result: ConversionResult, verbose: boolean): void {
+  console.log(`${chalk.magenta.bold(result.katakana)} ${resultBadge(result)}`);
+
+  if (verbose && result.romaji) {
+    console.log(`${chalk.gray('Romaji:')} ${result.romaji}`);
+  }
+  console.log();
+
+  result.segments?.forEach(segment => {
+    console.log(`  ${chalk.white(segment.text)} → ${chalk.magenta(segment.result.katakana)} ${resultBadge(segment.result)}`);
+    if (segment.result.meaning) {
+      console.log(`     ${chalk.gray('Meaning:')} ${segment.result.meaning}`);
+    }
+  });
+
+  console.log();
+}
+
+export function printReverseResult(result: ReverseResult, index: number): void {
+  const commonBadge = result.common ? chalk.bgGreen(' COMMON ') : chalk.bgGray(' RARE ');
+  console.log(`${chalk.bold(index)}. ${chalk.magenta(result.reading)} ${commonBadge}`);
+
+  if (result.kanji) {
+    console.log(`   ${chalk.gray('Kanji:')} ${result.kanji}`);
+  }
+
+  if (result.romaji) {
+    console.log(`   ${chalk.gray('Romaji:')} ${result.romaji}`);
+  }
+
+  result.meanings.forEach((meaning, senseIndex) => {
+    console.log(`   ${chalk.gray(`${senseIndex + 1})`)} ${meaning}`);
+  });
+
+  console.log();
+}
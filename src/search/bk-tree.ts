@@ -0,0 +1,106 @@
+import { EditDistance } from '../utils/edit-distance.js';
+
+export interface BKTreeMatch {
+  term: string;
+  distance: number;
+}
+
+// Node i > 0 hangs below parents[i] on an edge labelled distances[i]
+export interface PackedBKTree {
+  terms: string[];
+  parents: number[];
+  distances: number[];
+}
+
+/**
+ * Burkhard-Keller tree over Damerau-Levenshtein distance, for finding every term
+ * within a few edits of a query without comparing against the whole vocabulary
+ */
+export class BKTree {
+  private terms: string[] = [];
+  private parents: number[] = [];
+  private distances: number[] = [];
+  private children: Array<Map<number, number>> = [];
+
+  get size(): number {
+    return this.terms.length;
+  }
+
+  add(term: string): void {
+    if (this.terms.length === 0) {
+      this.addNode(term, -1, 0);
+      return;
+    }
+
+    let node = 0;
+    for (;;) {
+      const distance = EditDistance.damerauLevenshtein(term, this.terms[node]);
+      if (distance === 0) {
+        return;
+      }
+
+      const child = this.children[node].get(distance);
+      if (child === undefined) {
+        this.addNode(term, node, distance);
+        return;
+      }
+      node = child;
+    }
+  }
+
+  /**
+   * All terms within maxDistance of the query, closest first
+   */
+  search(query: string, maxDistance: number): BKTreeMatch[] {
+    const matches: BKTreeMatch[] = [];
+    if (this.terms.length === 0) {
+      return matches;
+    }
+
+    const pending = [0];
+    while (pending.length > 0) {
+      const node = pending.pop()!;
+      const distance = EditDistance.damerauLevenshtein(query, this.terms[node]);
+      if (distance <= maxDistance) {
+        matches.push({ term: this.terms[node], distance });
+      }
+
+      // By the triangle inequality, matches can only sit on edges within maxDistance of this one
+      for (const [edge, child] of this.children[node]) {
+        if (edge >= distance - maxDistance && edge <= distance + maxDistance) {
+          pending.push(child);
+        }
+      }
+    }
+
+    return matches.sort((a, b) => a.distance - b.distance || a.term.localeCompare(b.term));
+  }
+
+  pack(): PackedBKTree {
+    return {
+      terms: this.terms,
+      parents: this.parents,
+      distances: this.distances
+    };
+  }
+
+  static unpack(packed: PackedBKTree): BKTree {
+    const tree = new BKTree();
+    packed.terms.forEach((term, node) => {
+      tree.addNode(term, packed.parents[node], packed.distances[node]);
+    });
+    return tree;
+  }
+
+  private addNode(term: string, parent: number, distance: number): void {
+    const node = this.terms.length;
+    this.terms.push(term);
+    this.parents.push(parent);
+    this.distances.push(distance);
+    this.children.push(new Map());
+
+    if (parent >= 0) {
+      this.children[parent].set(distance, node);
+    }
+  }
+}
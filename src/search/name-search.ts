@@ -0,0 +1,111 @@
+import type { ConversionResult, RomajiStyle, SearchMode } from '../types.js';
+import type { IndexedNames, NameMatch } from '../dictionary/name-loader.js';
+import { JapaneseConverter } from '../utils/japanese-converter.js';
+
+// JMnedict name types
+const NAME_TYPE_LABELS: Record<string, string> = {
+  surname: 'surname',
+  place: 'place',
+  unclass: 'unclassified name',
+  company: 'company',
+  product: 'product',
+  work: 'work of art',
+  masc: 'male given name',
+  fem: 'female given name',
+  person: 'person',
+  given: 'given name',
+  station: 'station',
+  organization: 'organization',
+  char: 'character',
+  creat: 'creature',
+  dei: 'deity',
+  doc: 'document',
+  ev: 'event',
+  fict: 'fiction',
+  group: 'group',
+  leg: 'legend',
+  myth: 'mythology',
+  obj: 'object',
+  oth: 'other',
+  relig: 'religion',
+  serv: 'service',
+  ship: 'ship'
+};
+
+/**
+ * Looks up proper names (places, people, companies, products) in the name dictionary
+ */
+export class NameSearch {
+  constructor(private names: IndexedNames) {}
+
+  static describeType(type: string): string {
+    return NAME_TYPE_LABELS[type] ?? type;
+  }
+
+  /**
+   * Katakana spellings of a name, one result per spelling. The spelling used by the
+   * most entries comes first among equal scores, as it is the most established one.
+   */
+  find(query: string, mode: SearchMode = 'strict', romajiStyle: RomajiStyle = 'hepburn'): ConversionResult[] {
+    const name = query.toLowerCase().trim();
+    const matches = (this.names.names.get(name) ?? [])
+      .filter(match => match.matchType === 'exact' || mode !== 'strict');
+
+    const spellings = new Map<string, { result: ConversionResult; entryCount: number }>();
+    for (const match of matches) {
+      for (const kana of match.entry.kana) {
+        if (!JapaneseConverter.isKatakana(kana.text)) continue;
+
+        const spelling = spellings.get(kana.text);
+        if (spelling) {
+          spelling.entryCount++;
+          this.merge(spelling.result, match);
+        } else {
+          spellings.set(kana.text, { result: this.toResult(kana.text, name, match, romajiStyle), entryCount: 1 });
+        }
+      }
+    }
+
+    return [...spellings.values()]
+      .sort((a, b) =>
+        (b.result.score ?? 0) - (a.result.score ?? 0) ||
+        b.entryCount - a.entryCount ||
+        a.result.katakana.localeCompare(b.result.katakana))
+      .map(spelling => spelling.result);
+  }
+
+  private toResult(katakana: string, name: string, match: NameMatch, romajiStyle: RomajiStyle): ConversionResult {
+    return {
+      katakana,
+      hiragana: JapaneseConverter.katakanaToHiragana(katakana),
+      kanji: match.entry.kanji?.[0]?.text,
+      romaji: JapaneseConverter.katakanaToRomaji(katakana, romajiStyle),
+      meaning: this.translations(match).join(', '),
+      common: false,
+      score: match.score,
+      matchType: match.matchType,
+      matchedTerm: name,
+      source: 'names',
+      nameTypes: [...new Set(match.entry.translation.flatMap(translation => translation.type))]
+    };
+  }
+
+  /**
+   * Fold another entry with the same spelling into a result
+   */
+  private merge(result: ConversionResult, match: NameMatch): void {
+    if (match.score > (result.score ?? 0)) {
+      result.score = match.score;
+      result.matchType = match.matchType;
+    }
+    const types = match.entry.translation.flatMap(translation => translation.type);
+    result.nameTypes = [...new Set([...result.nameTypes ?? [], ...types])];
+  }
+
+  private translations(match: NameMatch): string[] {
+    return match.entry.translation
+      .flatMap(translation => translation.translation)
+      .filter(gloss => !gloss.lang || gloss.lang === 'eng')
+      .map(gloss => gloss.text);
+  }
+}
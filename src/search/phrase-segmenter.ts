@@ -0,0 +1,100 @@
+import type { IndexedDictionary, PhraseJoiner, ScoredResult } from '../types.js';
+import { Lemmatizer } from '../utils/lemmatizer.js';
+
+export const PHRASE_JOINERS: PhraseJoiner[] = ['nakaguro', 'space'];
+
+// Longest gloss, in words, that is indexed as a phrase
+const MAX_PHRASE_WORDS = 6;
+
+// Articles carry no sound in katakana UI strings, so they are dropped outside phrases
+const SKIPPED_WORDS = new Set(['a', 'an', 'the']);
+
+export interface PhrasePart {
+  text: string;
+  matches: ScoredResult[];   // Dictionary phrase matches; empty for a single unmatched word
+}
+
+/**
+ * Splits English text into the longest multi-word glosses found in the dictionary,
+ * leaving the remaining words to be converted one by one
+ */
+export class PhraseSegmenter {
+  constructor(private dictionary: IndexedDictionary) {}
+
+  /**
+   * Split text into lowercase words, keeping hyphenated words and contractions together
+   */
+  static tokenize(text: string): string[] {
+    return text.toLowerCase().match(/[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*/gu) ?? [];
+  }
+
+  /**
+   * Index key for a multi-word gloss, or null for single words and very long glosses.
+   * Parenthesized notes such as "(computer)" are not part of the phrase.
+   */
+  static phraseKey(text: string): string | null {
+    const words = this.tokenize(text.replace(/\([^)]*\)/g, ' '));
+    if (words.length < 2 || words.length > MAX_PHRASE_WORDS) {
+      return null;
+    }
+    return words.join(' ');
+  }
+
+  static separatorFor(joiner: PhraseJoiner): string {
+    return joiner === 'space' ? ' ' : '・';
+  }
+
+  static isSkippable(word: string): boolean {
+    return SKIPPED_WORDS.has(word);
+  }
+
+  /**
+   * Greedily take the longest dictionary phrase starting at each word
+   */
+  segment(text: string): PhrasePart[] {
+    const words = PhraseSegmenter.tokenize(text);
+    const parts: PhrasePart[] = [];
+    let position = 0;
+
+    while (position < words.length) {
+      const longest = Math.min(MAX_PHRASE_WORDS, words.length - position);
+      let matched = false;
+
+      for (let length = longest; length >= 2; length--) {
+        const candidate = words.slice(position, position + length).join(' ');
+        const matches = this.findPhrase(candidate);
+        if (matches) {
+          parts.push({ text: candidate, matches });
+          position += length;
+          matched = true;
+          break;
+        }
+      }
+
+      if (!matched) {
+        parts.push({ text: words[position], matches: [] });
+        position++;
+      }
+    }
+
+    return parts;
+  }
+
+  /**
+   * Look up a phrase as written, then with its last word in base form ("beer gardens")
+   */
+  private findPhrase(phrase: string): ScoredResult[] | undefined {
+    const matches = this.dictionary.phrases.get(phrase);
+    if (matches) {
+      return matches;
+    }
+
+    for (const baseForm of Lemmatizer.baseForms(phrase)) {
+      const baseMatches = this.dictionary.phrases.get(baseForm);
+      if (baseMatches) {
+        return baseMatches.map(result => ({ ...result, baseForm }));
+      }
+    }
+    return undefined;
+  }
+}
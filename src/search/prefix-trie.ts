@@ -0,0 +1,144 @@
+interface TrieNode {
+  children: Map<string, TrieNode>;
+  weight: number;       // Weight of the term ending here, or -Infinity
+  maxWeight: number;    // Highest weight of any term in this subtree
+}
+
+interface Candidate {
+  node: TrieNode;
+  text: string;
+}
+
+/**
+ * Higher weight first, then the shorter, then the alphabetically first text
+ */
+function compareCandidates(a: Candidate, b: Candidate, aWeight: number, bWeight: number): number {
+  return bWeight - aWeight || a.text.length - b.text.length || a.text.localeCompare(b.text);
+}
+
+/**
+ * Binary heap of subtrees to visit, best subtree first
+ */
+class CandidateHeap {
+  private items: Candidate[] = [];
+
+  push(candidate: Candidate): void {
+    const items = this.items;
+    items.push(candidate);
+    let index = items.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this.compare(items[index], items[parent]) >= 0) break;
+      [items[index], items[parent]] = [items[parent], items[index]];
+      index = parent;
+    }
+  }
+
+  pop(): Candidate | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length === 0 || !last) {
+      return top;
+    }
+
+    items[0] = last;
+    let index = 0;
+    for (;;) {
+      const left = index * 2 + 1;
+      const right = left + 1;
+      let best = index;
+      if (left < items.length && this.compare(items[left], items[best]) < 0) best = left;
+      if (right < items.length && this.compare(items[right], items[best]) < 0) best = right;
+      if (best === index) break;
+      [items[index], items[best]] = [items[best], items[index]];
+      index = best;
+    }
+    return top;
+  }
+
+  private compare(a: Candidate, b: Candidate): number {
+    return compareCandidates(a, b, a.node.maxWeight, b.node.maxWeight);
+  }
+}
+
+/**
+ * Prefix tree of weighted terms for autocompletion. Each node knows the best weight
+ * below it, so completions come out best first without visiting every term under a
+ * short prefix.
+ */
+export class PrefixTrie {
+  private root: TrieNode = PrefixTrie.createNode();
+  private termCount = 0;
+
+  get size(): number {
+    return this.termCount;
+  }
+
+  /**
+   * Add a term, keeping the higher weight if it is already present
+   */
+  add(term: string, weight: number): void {
+    const path: TrieNode[] = [this.root];
+    let node = this.root;
+    for (const char of term) {
+      let child = node.children.get(char);
+      if (!child) {
+        child = PrefixTrie.createNode();
+        node.children.set(char, child);
+      }
+      node = child;
+      path.push(node);
+    }
+
+    if (node.weight === -Infinity) {
+      this.termCount++;
+    }
+    node.weight = Math.max(node.weight, weight);
+    for (const ancestor of path) {
+      ancestor.maxWeight = Math.max(ancestor.maxWeight, node.weight);
+    }
+  }
+
+  /**
+   * Terms starting with the prefix, highest weight first; equal weights put the
+   * shorter term, then the alphabetically first, ahead
+   */
+  complete(prefix: string, maxResults = 10): string[] {
+    let start: TrieNode | undefined = this.root;
+    for (const char of prefix) {
+      start = start.children.get(char);
+      if (!start) {
+        return [];
+      }
+    }
+
+    const pending = new CandidateHeap();
+    pending.push({ node: start, text: prefix });
+    const found: Candidate[] = [];
+
+    for (let candidate = pending.pop(); candidate; candidate = pending.pop()) {
+      const { node, text } = candidate;
+      // Every term below ranks at best like the subtree itself, and the heap yields subtrees best first
+      const worst = found[maxResults - 1];
+      if (worst && compareCandidates(candidate, worst, node.maxWeight, worst.node.weight) > 0) {
+        break;
+      }
+
+      if (node.weight !== -Infinity) {
+        found.push(candidate);
+        found.sort((a, b) => compareCandidates(a, b, a.node.weight, b.node.weight));
+        found.length = Math.min(found.length, maxResults);
+      }
+      for (const [char, child] of node.children) {
+        pending.push({ node: child, text: text + char });
+      }
+    }
+
+    return found.map(({ text }) => text);
+  }
+
+  private static createNode(): TrieNode {
+    return { children: new Map(), weight: -Infinity, maxWeight: -Infinity };
+  }
+}
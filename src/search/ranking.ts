@@ -0,0 +1,158 @@
+import type { JMDictEntry, MatchType, ScoreAdjustment } from '../types.js';
+
+/**
+ * Tunable weights of the ranking model. Scores are 100 times the product of the
+ * factors that apply, so every weight is a multiplier between 0 and 1 unless noted.
+ */
+export interface RankingWeights {
+  exact: number;              // The gloss is the term alone, ignoring parenthesized notes
+  primary: number;            // First word of a multi-word gloss
+  compound: number;           // Later word of a multi-word gloss
+  description: number;        // Word in a parenthesized note
+  senseDecay: number;         // Per sense before the matching one
+  glossDecay: number;         // Per gloss before the matching one within its sense
+  lengthSaturation: number;   // BM25 k1 (>= 0): how quickly extra gloss words stop mattering
+  lengthNormalization: number;  // BM25 b (0 to 1): how strongly long glosses are penalized
+  rarity: number;             // Share of a partial match's score that depends on how rare the term is
+  uncommon: number;           // Entries without a common reading
+  inflection: number;         // Matched through a base form such as "computer" for "computers"
+  fuzzy: number;              // Matched through a typo correction
+  fuzzyEdit: number;          // Further penalty per edit beyond the first
+}
+
+export const DEFAULT_RANKING_WEIGHTS: RankingWeights = {
+  exact: 1,
+  primary: 0.8,
+  compound: 0.6,
+  description: 0.2,
+  senseDecay: 0.9,
+  glossDecay: 0.95,
+  lengthSaturation: 1.2,
+  lengthNormalization: 0.75,
+  rarity: 0.3,
+  uncommon: 0.85,
+  inflection: 0.9,
+  fuzzy: 0.7,
+  fuzzyEdit: 0.8
+};
+
+/**
+ * Corpus statistics the ranking depends on, gathered while indexing
+ */
+export interface RankingStats {
+  entryCount: number;
+  averageGlossLength: number;   // In indexed words, parenthesized notes excluded
+}
+
+export interface GlossTerm {
+  term: string;
+  matchType: MatchType;
+  length: number;   // Indexed words in the gloss part (main text or note) holding the term
+}
+
+export interface RankedMatch {
+  score: number;
+  factors: ScoreAdjustment[];
+}
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'or', 'but', 'for', 'with', 'without', 'from', 'to', 'at', 'in', 'on',
+  'by', 'of', 'a', 'an', 'be', 'is', 'are', 'was', 'were', 'being', 'been',
+  'have', 'has', 'had', 'do', 'does', 'did', 'will', 'would', 'could', 'should',
+  'may', 'might', 'can', 'must', 'shall', 'this', 'that', 'these', 'those'
+]);
+
+/**
+ * BM25-style scoring of English glosses: where the term sits in its gloss, which
+ * sense and gloss it came from, how long the gloss is and how rare the term is
+ */
+export class RankingModel {
+  constructor(
+    private stats: RankingStats,
+    private weights: RankingWeights = DEFAULT_RANKING_WEIGHTS
+  ) {}
+
+  /**
+   * Indexed terms of a lowercase gloss. A gloss that is one word apart from its
+   * parenthesized notes is an exact match for that word; notes only give descriptions.
+   */
+  static glossTerms(gloss: string): GlossTerm[] {
+    const notes = [...gloss.matchAll(/\(([^)]*)\)/g)].map(match => match[1]);
+    const mainWords = this.words(gloss.replace(/\([^)]*\)/g, ' '));
+    const terms: GlossTerm[] = [];
+
+    if (mainWords.length === 1) {
+      terms.push({ term: mainWords[0], matchType: 'exact', length: 1 });
+    } else {
+      mainWords.forEach((term, position) => {
+        terms.push({ term, matchType: position === 0 ? 'primary' : 'compound', length: mainWords.length });
+      });
+    }
+
+    for (const note of notes) {
+      const noteWords = this.words(note);
+      for (const term of noteWords) {
+        terms.push({ term, matchType: 'description', length: noteWords.length });
+      }
+    }
+
+    return terms;
+  }
+
+  /**
+   * Words worth indexing: longer than two letters and not a stop word
+   */
+  private static words(text: string): string[] {
+    return text.split(/[\s,;[\]]+/).filter(word => word.length > 2 && !STOP_WORDS.has(word));
+  }
+
+  /**
+   * Score a term found in gloss glossIndex of sense senseIndex.
+   * documentFrequency is the number of entries with the term in any gloss.
+   */
+  rank(entry: JMDictEntry, senseIndex: number, glossIndex: number, glossTerm: GlossTerm, documentFrequency: number): RankedMatch {
+    const { weights } = this;
+    const factors: ScoreAdjustment[] = [];
+    const addFactor = (factor: number, reason: string) => {
+      if (factor !== 1) {
+        factors.push({ factor, reason });
+      }
+    };
+
+    addFactor(weights[glossTerm.matchType], `${glossTerm.matchType} match`);
+    addFactor(weights.senseDecay ** senseIndex, `sense ${senseIndex + 1}`);
+    addFactor(weights.glossDecay ** glossIndex, `gloss ${glossIndex + 1} of its sense`);
+
+    if (glossTerm.matchType !== 'exact') {
+      addFactor(this.lengthFactor(glossTerm.length), `${glossTerm.length}-word gloss`);
+      addFactor(this.rarityFactor(documentFrequency), `term in ${documentFrequency} entries`);
+    }
+
+    if (!entry.kana.some(kana => kana.common)) {
+      addFactor(weights.uncommon, 'no common reading');
+    }
+
+    const product = factors.reduce((score, { factor }) => score * factor, 100);
+    return { score: Math.max(1, Math.round(product)), factors };
+  }
+
+  /**
+   * BM25 term-frequency saturation for a single occurrence, relative to a one-word gloss
+   */
+  private lengthFactor(length: number): number {
+    const { lengthSaturation: k1, lengthNormalization: b } = this.weights;
+    const bm25 = (words: number) => (k1 + 1) / (1 + k1 * (1 - b + b * words / this.stats.averageGlossLength));
+    return bm25(length) / bm25(1);
+  }
+
+  /**
+   * BM25 inverse document frequency, scaled so the rarest terms keep their full score
+   */
+  private rarityFactor(documentFrequency: number): number {
+    const { entryCount } = this.stats;
+    const idf = (frequency: number) => Math.log(1 + (entryCount - frequency + 0.5) / (frequency + 0.5));
+    const maxIdf = idf(1);
+    const scaled = maxIdf > 0 ? idf(documentFrequency) / maxIdf : 1;
+    return 1 - this.weights.rarity + this.weights.rarity * scaled;
+  }
+}
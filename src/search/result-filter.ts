@@ -0,0 +1,76 @@
+import type { ScoredResult, SearchOptions, Sense } from '../types.js';
+import { JapaneseConverter } from '../utils/japanese-converter.js';
+
+/**
+ * Drops matches whose entries do not meet the search options' restrictions
+ */
+export class ResultFilter {
+  static apply(scoredResults: ScoredResult[], options: SearchOptions): ScoredResult[] {
+    if (!this.isActive(options)) {
+      return scoredResults;
+    }
+    return scoredResults.filter(result => this.accepts(result, options));
+  }
+
+  static isActive(options: SearchOptions): boolean {
+    return options.origin !== undefined ||
+      options.wasei === false ||
+      options.commonOnly === true ||
+      (options.partOfSpeech?.length ?? 0) > 0 ||
+      (options.field?.length ?? 0) > 0 ||
+      (options.excludeMisc?.length ?? 0) > 0;
+  }
+
+  static accepts(result: ScoredResult, options: SearchOptions): boolean {
+    const { entry } = result;
+
+    // The team glossary carries no tags, and its spellings are wanted whatever the filters
+    if (entry.glossary) {
+      return true;
+    }
+
+    if (options.commonOnly && !entry.kana.some(kana => kana.common && JapaneseConverter.isKatakana(kana.text))) {
+      return false;
+    }
+
+    const sources = entry.sense.flatMap(sense => sense.languageSource ?? []);
+
+    if (options.wasei === false && sources.some(source => source.wasei)) {
+      return false;
+    }
+
+    if (options.origin !== undefined) {
+      // JMDict leaves out languageSource for loanwords from English
+      const languages = sources.length > 0 ? sources.map(source => source.lang ?? 'eng') : ['eng'];
+      if (!languages.includes(options.origin)) {
+        return false;
+      }
+    }
+
+    // Part of speech, field and usage tags must all hold for the sense that matched; matches
+    // without one, such as reading lookups, need a single sense that passes
+    const matchedSense = result.senseIndex !== undefined ? entry.sense[result.senseIndex] : undefined;
+    return matchedSense
+      ? this.acceptsSense(matchedSense, options)
+      : entry.sense.some(sense => this.acceptsSense(sense, options));
+  }
+
+  /**
+   * Split a comma-separated tag list such as "arch,obs, sl"
+   */
+  static parseTags(value: string): string[] {
+    return value.split(',').map(tag => tag.trim()).filter(tag => tag.length > 0);
+  }
+
+  private static acceptsSense(sense: Sense, options: SearchOptions): boolean {
+    const { partOfSpeech = [], field = [], excludeMisc = [] } = options;
+
+    if (partOfSpeech.length > 0 && !sense.partOfSpeech?.some(tag => partOfSpeech.includes(tag))) {
+      return false;
+    }
+    if (field.length > 0 && !sense.field?.some(tag => field.includes(tag))) {
+      return false;
+    }
+    return !sense.misc?.some(tag => excludeMisc.includes(tag));
+  }
+}
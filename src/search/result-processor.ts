@@ -1,14 +1,15 @@
-import type { JMDictEntry, ConversionResult, ScoredResult } from '../types.js';
+import type { JMDictEntry, ConversionResult, KatakanaStyleRule, ReverseResult, RomajiStyle, ScoredResult, TextWidth, WordOrigin } from '../types.js';
 import { JapaneseConverter } from '../utils/japanese-converter.js';
+import { KatakanaStyle } from '../utils/katakana-style.js';
 
 /**
  * Processes dictionary entries into conversion results
  */
 export class ResultProcessor {
   /**
-   * Convert a dictionary entry to conversion results
+   * Convert a dictionary entry to conversion results, with the meaning taken from the given sense
    */
-  static entryToConversions(entry: JMDictEntry): ConversionResult[] {
+  static entryToConversions(entry: JMDictEntry, romajiStyle: RomajiStyle = 'hepburn', senseIndex = 0): ConversionResult[] {
     const results: ConversionResult[] = [];
 
     // Get all katakana readings, sorted by commonality
@@ -20,8 +21,9 @@ export class ResultProcessor {
         return 0;
       });
 
-    // Extract meaning from first sense
-    const meaning = this.extractMeaning(entry);
+    const senses = this.extractSenses(entry);
+    const meaning = senses[senseIndex] ?? senses[0] ?? '';
+    const origin = this.extractOrigin(entry);
 
     for (const kana of katakanaReadings) {
       const correspondingKanji = this.findCorrespondingKanji(entry, kana);
@@ -30,9 +32,15 @@ export class ResultProcessor {
         katakana: kana.text,
         hiragana: JapaneseConverter.katakanaToHiragana(kana.text),
         kanji: correspondingKanji?.text,
-        romaji: JapaneseConverter.katakanaToRomaji(kana.text),
+        romaji: JapaneseConverter.katakanaToRomaji(kana.text, romajiStyle),
         meaning,
-        common: kana.common || false
+        common: kana.common || false,
+        source: entry.glossary ? 'glossary' : 'dictionary',
+        ...(origin.length > 0 && { origin }),
+        senses,
+        senseIndex,
+        ...(entry.glossary?.note && { note: entry.glossary.note }),
+        ...(entry.glossary?.preferredOver && { preferredOver: entry.glossary.preferredOver })
       });
     }
 
@@ -55,31 +63,157 @@ export class ResultProcessor {
   /**
    * Process scored results into conversion results with proper sorting
    */
-  static processScoredResults(scoredResults: ScoredResult[]): ConversionResult[] {
+  static processScoredResults(scoredResults: ScoredResult[], romajiStyle: RomajiStyle = 'hepburn'): ConversionResult[] {
     // Sort by score first, then by commonality
-    const sortedScored = scoredResults.sort((a, b) => {
-      // Primary sort: by score
-      if (a.score !== b.score) return b.score - a.score;
-
-      // Secondary sort: by commonality (common entries first)
-      const aCommon = a.entry.kana.some(k => k.common) || false;
-      const bCommon = b.entry.kana.some(k => k.common) || false;
-      if (aCommon && !bCommon) return -1;
-      if (!aCommon && bCommon) return 1;
-
-      // Tertiary sort: alphabetically by first katakana reading
-      const aKatakana = a.entry.kana.find(k => this.isKatakana(k.text))?.text || '';
-      const bKatakana = b.entry.kana.find(k => this.isKatakana(k.text))?.text || '';
-      return aKatakana.localeCompare(bKatakana);
-    });
+    const sortedScored = scoredResults.sort((a, b) => this.compareScored(a, b));
 
     const results: ConversionResult[] = [];
+    const entryIds = new Map<ConversionResult, string>();
     for (const scoredResult of sortedScored) {
-      const conversions = this.entryToConversions(scoredResult.entry);
-      results.push(...conversions);
+      const conversions = this.entryToConversions(scoredResult.entry, romajiStyle, scoredResult.senseIndex);
+      for (const conversion of conversions) {
+        const result: ConversionResult = {
+          ...conversion,
+          score: scoredResult.score,
+          matchType: scoredResult.matchType,
+          matchedTerm: scoredResult.matchedTerm,
+          ...(scoredResult.baseForm && { baseForm: scoredResult.baseForm }),
+          ...(scoredResult.adjustments && {
+            baseScore: scoredResult.baseScore,
+            adjustments: scoredResult.adjustments
+          }),
+          ...(scoredResult.rankingFactors && { rankingFactors: scoredResult.rankingFactors })
+        };
+        results.push(result);
+        entryIds.set(result, scoredResult.entry.id);
+      }
+    }
+
+    const deduplicated = this.deduplicateResults(this.withoutReplacedSpellings(results));
+    return this.groupVariants(deduplicated, result => entryIds.get(result));
+  }
+
+  /**
+   * Fold orthographic variants such as コンピュータ into the best-ranked spelling of the
+   * same word, which lists them as its variants. Readings of one dictionary entry are
+   * always variants; otherwise spellings are matched by their variant key.
+   */
+  static groupVariants(results: ConversionResult[], entryIdOf?: (result: ConversionResult) => string | undefined): ConversionResult[] {
+    const groups = new Map<string, ConversionResult>();
+    const grouped: ConversionResult[] = [];
+
+    for (const result of results) {
+      // Names and dictionary words that share a spelling stay separate results
+      const key = `${result.source}:${KatakanaStyle.variantKey(result.katakana)}`;
+      const entryId = entryIdOf?.(result);
+      const entryKey = entryId !== undefined ? `${result.source}#${entryId}` : undefined;
+      const group = (entryKey && groups.get(entryKey)) || groups.get(key);
+      if (!group) {
+        const first = { ...result };
+        groups.set(key, first);
+        if (entryKey) groups.set(entryKey, first);
+        grouped.push(first);
+        continue;
+      }
+
+      if (!groups.has(key)) groups.set(key, group);
+      if (entryKey && !groups.has(entryKey)) groups.set(entryKey, group);
+
+      const spellings = [result.katakana, ...result.variants ?? []]
+        .filter(spelling => spelling !== group.katakana && !group.variants?.includes(spelling));
+      if (spellings.length > 0) {
+        group.variants = [...group.variants ?? [], ...spellings];
+      }
+    }
+
+    return grouped;
+  }
+
+  /**
+   * Rewrite each result to the style guide's spelling; glossary spellings are kept as the
+   * team chose them. The dictionary spelling becomes a variant when it changes.
+   */
+  static applyStyle(results: ConversionResult[], rules: KatakanaStyleRule[], romajiStyle: RomajiStyle = 'hepburn', english?: string): ConversionResult[] {
+    if (rules.length === 0) {
+      return results;
+    }
+
+    const styled = results.map(result => {
+      if (result.source === 'glossary') {
+        return result;
+      }
+
+      // Dictionary and name spellings only change to another listed spelling, or gain ー
+      const spellings = result.source === 'generated' ? undefined : [result.katakana, ...result.variants ?? []];
+      const katakana = KatakanaStyle.apply(result.katakana, rules, result.matchedTerm ?? english, spellings);
+      if (katakana === result.katakana) {
+        return result;
+      }
+
+      return {
+        ...result,
+        katakana,
+        hiragana: JapaneseConverter.katakanaToHiragana(katakana),
+        romaji: JapaneseConverter.katakanaToRomaji(katakana, romajiStyle),
+        variants: [result.katakana, ...result.variants ?? []].filter(spelling => spelling !== katakana)
+      };
+    });
+
+    return this.groupVariants(styled);
+  }
+
+  /**
+   * Write the katakana of results, their variants and phrase parts in another width.
+   * Romaji and hiragana are left as they are.
+   */
+  static applyWidth(results: ConversionResult[], width: TextWidth): ConversionResult[] {
+    if (width === 'standard') {
+      return results;
     }
 
-    return this.deduplicateResults(results);
+    return results.map(result => ({
+      ...result,
+      katakana: JapaneseConverter.toWidth(result.katakana, width),
+      ...(result.variants && { variants: result.variants.map(variant => JapaneseConverter.toWidth(variant, width)) }),
+      ...(result.segments && {
+        segments: result.segments.map(segment => ({ ...segment, result: this.applyWidth([segment.result], width)[0] }))
+      })
+    }));
+  }
+
+  /**
+   * Drop dictionary spellings that a matching glossary entry replaces, e.g. サーバ when
+   * the team glossary prefers サーバー
+   */
+  private static withoutReplacedSpellings(results: ConversionResult[]): ConversionResult[] {
+    const replaced = new Set(results.flatMap(result => result.source === 'glossary' ? result.preferredOver ?? [] : []));
+    return results.filter(result => result.source === 'glossary' || !replaced.has(result.katakana));
+  }
+
+  /**
+   * Process reading matches into English glosses for reverse lookup
+   */
+  static processReverseResults(scoredResults: ScoredResult[], romajiStyle: RomajiStyle = 'hepburn'): ReverseResult[] {
+    const sortedScored = scoredResults.sort((a, b) => this.compareScored(a, b));
+
+    return sortedScored.map(scoredResult => {
+      const { entry } = scoredResult;
+      const readings = entry.kana.map(k => JapaneseConverter.hiraganaToKatakana(k.text));
+      const matchIndex = readings.indexOf(scoredResult.matchedTerm) !== -1
+        ? readings.indexOf(scoredResult.matchedTerm)
+        : readings.findIndex(reading => reading.includes(scoredResult.matchedTerm));
+      const kana = entry.kana[Math.max(matchIndex, 0)];
+
+      return {
+        reading: kana.text,
+        kanji: this.findCorrespondingKanji(entry, kana)?.text,
+        romaji: JapaneseConverter.katakanaToRomaji(kana.text, romajiStyle),
+        meanings: this.extractSenses(entry).filter(meaning => meaning.length > 0),
+        common: kana.common || false,
+        score: scoredResult.score,
+        matchType: scoredResult.matchType
+      };
+    });
   }
 
   /**
@@ -93,20 +227,66 @@ export class ResultProcessor {
     });
   }
 
-  private static extractMeaning(entry: JMDictEntry): string {
-    return entry.sense[0]?.gloss
+  /**
+   * Order scored results: glossary entries, then by score, commonality, then first katakana reading
+   */
+  private static compareScored(a: ScoredResult, b: ScoredResult): number {
+    // Team glossary entries always come first
+    if (!a.entry.glossary !== !b.entry.glossary) return a.entry.glossary ? -1 : 1;
+
+    // Primary sort: by score
+    if (a.score !== b.score) return b.score - a.score;
+
+    // Secondary sort: by commonality (common entries first)
+    const aCommon = a.entry.kana.some(k => k.common) || false;
+    const bCommon = b.entry.kana.some(k => k.common) || false;
+    if (aCommon && !bCommon) return -1;
+    if (!aCommon && bCommon) return 1;
+
+    // Tertiary sort: alphabetically by first katakana reading
+    const aKatakana = a.entry.kana.find(k => this.isKatakana(k.text))?.text || '';
+    const bKatakana = b.entry.kana.find(k => this.isKatakana(k.text))?.text || '';
+    return aKatakana.localeCompare(bKatakana);
+  }
+
+  /**
+   * English glosses of each sense, joined per sense
+   */
+  private static extractSenses(entry: JMDictEntry): string[] {
+    return entry.sense.map(sense => sense.gloss
       .filter(g => g.lang === 'eng' || !g.lang)
       .map(g => g.text)
-      .join(', ') || '';
+      .join(', '));
+  }
+
+  /**
+   * Source languages across all senses, once per language and source word
+   */
+  private static extractOrigin(entry: JMDictEntry): WordOrigin[] {
+    const origins = new Map<string, WordOrigin>();
+    for (const source of entry.sense.flatMap(sense => sense.languageSource ?? [])) {
+      const origin: WordOrigin = {
+        lang: source.lang ?? 'eng',
+        ...(source.text && { text: source.text }),
+        partial: source.full === false,
+        wasei: source.wasei === true
+      };
+      const key = `${origin.lang}:${origin.text ?? ''}`;
+      if (!origins.has(key)) {
+        origins.set(key, origin);
+      }
+    }
+    return [...origins.values()];
   }
 
   private static findCorrespondingKanji(entry: JMDictEntry, kana: any) {
     return entry.kanji?.find(k =>
-      !kana.appliesToKanji || kana.appliesToKanji.includes(k.text)
+      !kana.appliesToKanji || kana.appliesToKanji.includes('*') || kana.appliesToKanji.includes(k.text)
     );
   }
 
   private static isKatakana(text: string): boolean {
+    // eslint-disable-next-line no-misleading-character-class
     return /^[\u30A0-\u30FF\u30FC\u3099\u309A]+$/.test(text);
   }
 }
\ No newline at end of file
@@ -1,23 +1,38 @@
-import fuzzy from 'fuzzy';
-import type { IndexedDictionary, ScoredResult, SearchMode } from '../types.js';
+import type { IndexedDictionary, MatchType, ScoredResult, SearchMode } from '../types.js';
+import { EditDistance } from '../utils/edit-distance.js';
+import { Lemmatizer } from '../utils/lemmatizer.js';
+import { PhraseSegmenter } from './phrase-segmenter.js';
+import { PrefixTrie } from './prefix-trie.js';
+import { DEFAULT_RANKING_WEIGHTS, RankingModel, type GlossTerm, type RankingWeights } from './ranking.js';
 
 /**
  * Search engine for dictionary lookups
  */
 export class SearchEngine {
-  constructor(private dictionary: IndexedDictionary) {}
+  private ranking: RankingModel;
+  private suggestionIndex: PrefixTrie | null = null;
+
+  constructor(private dictionary: IndexedDictionary, private weights: RankingWeights = DEFAULT_RANKING_WEIGHTS) {
+    this.ranking = new RankingModel(dictionary.rankingStats, weights);
+  }
 
   /**
    * Find scored matches based on search mode
    */
   findScoredMatches(query: string, mode: SearchMode = 'strict'): ScoredResult[] {
     const searchTerm = query.toLowerCase().trim();
-    let results: ScoredResult[] = [];
+    const results: ScoredResult[] = [];
 
     // Always check exact matches first
     const exactResults = this.dictionary.exactMatches.get(searchTerm) || [];
     results.push(...exactResults);
 
+    // Multi-word queries can match a whole gloss such as "beer garden"
+    const phraseKey = PhraseSegmenter.phraseKey(searchTerm);
+    if (phraseKey) {
+      results.push(...(this.dictionary.phrases.get(phraseKey) || []));
+    }
+
     // Add compound matches based on mode
     if (mode === 'normal' || mode === 'broad') {
       const compoundResults = this.dictionary.compoundWords.get(searchTerm) || [];
@@ -37,98 +52,248 @@ export class SearchEngine {
   }
 
   /**
-   * Find fuzzy matches for a query with scoring
+   * Match inflected words (plurals, -ing, -ed, possessives) through their base forms.
+   * The first base form with matches wins, with a small score penalty.
+   */
+  findInflectedMatches(query: string, mode: SearchMode = 'strict'): ScoredResult[] {
+    for (const baseForm of Lemmatizer.baseForms(query)) {
+      const matches = this.findScoredMatches(baseForm, mode);
+      if (matches.length > 0) {
+        return matches.map(result => ({
+          ...this.adjust(result, this.weights.inflection, `inflected form of "${baseForm}"`),
+          baseForm
+        }));
+      }
+    }
+
+    return [];
+  }
+
+  /**
+   * Find words within a few typos of the query using the typo index.
+   * Results are ranked by Damerau-Levenshtein distance; commonness breaks ties later.
    */
   findFuzzyMatches(query: string, mode: SearchMode = 'normal', maxResults = 5): ScoredResult[] {
-    // Collect all keys from different indexes based on mode
-    const allKeys = new Set<string>();
+    const searchTerm = query.toLowerCase().trim();
+    const maxDistance = searchTerm.length <= 4 ? 1 : 2;
+    const results: ScoredResult[] = [];
+
+    for (const { term, distance } of this.dictionary.typoIndex.search(searchTerm, maxDistance)) {
+      if (distance === 0) continue;
 
-    // Always include exact match keys
-    for (const key of this.dictionary.exactMatches.keys()) {
-      allKeys.add(key);
+      const penalty = this.fuzzyPenalty(distance);
+      for (const result of this.findScoredMatches(term, mode)) {
+        results.push(this.adjust(result, penalty, `typo for "${term}", ${distance} edit${distance > 1 ? 's' : ''}`));
+      }
     }
 
-    // Add compound keys if mode allows
+    return this.deduplicateByEntry(results)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, maxResults);
+  }
+
+  /**
+   * Find entries by kana reading (katakana), the reverse of findScoredMatches.
+   * Normal mode adds readings that start or end with the query, broad mode any reading containing it.
+   */
+  findReadingMatches(reading: string, mode: SearchMode = 'strict'): ScoredResult[] {
+    const results = this.entriesForReading(reading, reading, 100, 'exact');
+
     if (mode === 'normal' || mode === 'broad') {
-      for (const key of this.dictionary.compoundWords.keys()) {
-        allKeys.add(key);
+      for (const candidate of this.dictionary.readings.keys()) {
+        if (candidate === reading) continue;
+
+        if (candidate.startsWith(reading)) {
+          results.push(...this.entriesForReading(candidate, reading, 80, 'primary'));
+        } else if (candidate.endsWith(reading)) {
+          results.push(...this.entriesForReading(candidate, reading, 60, 'compound'));
+        } else if (mode === 'broad' && candidate.includes(reading)) {
+          results.push(...this.entriesForReading(candidate, reading, 20, 'description'));
+        }
       }
     }
 
-    // Add description keys if broad mode
-    if (mode === 'broad') {
-      for (const key of this.dictionary.descriptionOnly.keys()) {
-        allKeys.add(key);
-      }
+    return this.deduplicateByEntry(results).sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Find entries whose reading is within a small edit distance of the query
+   */
+  findFuzzyReadingMatches(reading: string, mode: SearchMode = 'normal', maxResults = 5): ScoredResult[] {
+    const maxDistance = reading.length <= 4 ? 1 : 2;
+    const results: ScoredResult[] = [];
+
+    for (const candidate of this.dictionary.readings.keys()) {
+      // Outside strict mode, also compare against the start of longer readings
+      const compared = mode !== 'strict' && candidate.length > reading.length
+        ? candidate.slice(0, reading.length)
+        : candidate;
+      const distance = EditDistance.levenshtein(reading, compared, maxDistance);
+      if (distance === 0 || distance > maxDistance) continue;
+
+      const isWhole = compared === candidate;
+      const baseScore = isWhole ? 100 : 80;
+      const score = Math.round(baseScore * this.fuzzyPenalty(distance));
+      results.push(...this.entriesForReading(candidate, candidate, score, isWhole ? 'exact' : 'primary'));
     }
 
-    const keysArray = Array.from(allKeys);
-    const fuzzyResults = fuzzy.filter(query.toLowerCase(), keysArray);
+    return this.deduplicateByEntry(results)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, maxResults);
+  }
 
-    const scoredResults: ScoredResult[] = [];
+  /**
+   * Complete a partial word from the exact and compound word keys, best ranked first:
+   * common whole-gloss words ahead of rare ones and words only found in compounds
+   */
+  getSuggestions(partialQuery: string, maxResults = 10): string[] {
+    const query = partialQuery.toLowerCase().trim();
+    if (query.length === 0) {
+      return [];
+    }
+    return this.getSuggestionIndex().complete(query, maxResults);
+  }
 
-    for (const fuzzyResult of fuzzyResults.slice(0, maxResults * 2)) {
-      const exactResults = this.dictionary.exactMatches.get(fuzzyResult.original) || [];
-      const compoundResults = this.dictionary.compoundWords.get(fuzzyResult.original) || [];
-      const descResults = this.dictionary.descriptionOnly.get(fuzzyResult.original) || [];
+  /**
+   * Dictionary words the query may be a misspelling of, closest first. Each word of a
+   * multi-word query is corrected on its own, giving one suggestion for the whole query.
+   */
+  getDidYouMean(query: string, maxResults = 3): string[] {
+    const words = query.toLowerCase().trim().split(/\s+/).filter(word => word.length > 0);
+    if (words.length === 0) {
+      return [];
+    }
+
+    if (words.length === 1) {
+      return this.corrections(words[0], maxResults);
+    }
+
+    const corrected = words.map(word => this.isWordKey(word) ? word : this.corrections(word, 1)[0]);
+    if (corrected.some(word => word === undefined) || corrected.every((word, index) => word === words[index])) {
+      return [];
+    }
+    return [corrected.join(' ')];
+  }
+
+  /**
+   * Attach the ranking factors behind a match's index score. Reading matches,
+   * which do not come from a gloss, are returned unchanged.
+   */
+  explain(result: ScoredResult): ScoredResult {
+    const sense = result.senseIndex !== undefined ? result.entry.sense[result.senseIndex] : undefined;
+    if (!sense) {
+      return result;
+    }
 
-      // Apply fuzzy penalty (reduce score by 30%)
-      const fuzzyPenalty = 0.7;
+    const indexScore = result.baseScore ?? result.score;
+    const isPhrase = result.matchedTerm.includes(' ');
+    const documentFrequency = isPhrase ? 1 : this.documentFrequency(result.matchedTerm);
+    const glosses = sense.gloss
+      .filter(gloss => gloss.lang === 'eng' || !gloss.lang)
+      .map(gloss => gloss.text.toLowerCase().trim());
 
-      exactResults.forEach(result => {
-        scoredResults.push({
-          ...result,
-          score: Math.round(result.score * fuzzyPenalty)
-        });
-      });
+    for (const [glossIndex, gloss] of glosses.entries()) {
+      const glossTerm: GlossTerm | undefined = isPhrase
+        ? (PhraseSegmenter.phraseKey(gloss) === result.matchedTerm ? { term: result.matchedTerm, matchType: 'exact', length: 1 } : undefined)
+        : RankingModel.glossTerms(gloss).find(term => term.term === result.matchedTerm && term.matchType === result.matchType);
+      if (!glossTerm) continue;
 
-      if (mode === 'normal' || mode === 'broad') {
-        compoundResults.forEach(result => {
-          scoredResults.push({
-            ...result,
-            score: Math.round(result.score * fuzzyPenalty)
-          });
-        });
+      // The index keeps the best-scoring gloss, so the first gloss reproducing its score is the one
+      const ranked = this.ranking.rank(result.entry, result.senseIndex!, glossIndex, glossTerm, documentFrequency);
+      if (ranked.score === indexScore) {
+        return { ...result, rankingFactors: ranked.factors };
       }
+    }
+
+    return result;
+  }
+
+  /**
+   * Whole-word corrections within a few edits, longer words allowing more. Equally close
+   * words are ranked like suggestions.
+   */
+  private corrections(word: string, maxResults: number): string[] {
+    const maxDistance = word.length <= 4 ? 1 : word.length <= 8 ? 2 : 3;
+    return this.dictionary.typoIndex.search(word, maxDistance)
+      .filter(({ term, distance }) => distance > 0 && this.isWordKey(term))
+      .map(({ term, distance }) => ({ term, distance, weight: this.suggestionWeight(term) }))
+      .sort((a, b) => a.distance - b.distance || b.weight - a.weight || a.term.localeCompare(b.term))
+      .slice(0, maxResults)
+      .map(({ term }) => term);
+  }
+
+  private isWordKey(term: string): boolean {
+    return this.dictionary.exactMatches.has(term) || this.dictionary.compoundWords.has(term);
+  }
 
-      if (mode === 'broad') {
-        descResults.forEach(result => {
-          scoredResults.push({
-            ...result,
-            score: Math.round(result.score * fuzzyPenalty)
-          });
-        });
+  /**
+   * Built on first use; the suggestion paths are the only ones that need it
+   */
+  private getSuggestionIndex(): PrefixTrie {
+    if (!this.suggestionIndex) {
+      this.suggestionIndex = new PrefixTrie();
+      for (const index of [this.dictionary.exactMatches, this.dictionary.compoundWords]) {
+        for (const term of index.keys()) {
+          this.suggestionIndex.add(term, this.suggestionWeight(term));
+        }
       }
     }
+    return this.suggestionIndex;
+  }
 
-    const uniqueResults = this.deduplicateByEntry(scoredResults);
-    return uniqueResults.sort((a, b) => b.score - a.score).slice(0, maxResults);
+  /**
+   * Best score of a word's matches, which already reflects commonness and whether it is
+   * a whole gloss, plus a little for words that match several entries
+   */
+  private suggestionWeight(term: string): number {
+    const matches = [...this.dictionary.exactMatches.get(term) ?? [], ...this.dictionary.compoundWords.get(term) ?? []];
+    const bestScore = matches.reduce((best, match) => Math.max(best, match.score), 0);
+    return bestScore + Math.log2(new Set(matches.map(match => match.entry.id)).size || 1);
   }
 
   /**
-   * Get word suggestions based on partial input
+   * Each edit costs the fuzzy penalty, and each one after the first costs more
    */
-  getSuggestions(partialQuery: string, maxResults = 10): string[] {
-    const query = partialQuery.toLowerCase();
-    const suggestions: string[] = [];
+  private fuzzyPenalty(distance: number): number {
+    return this.weights.fuzzy * this.weights.fuzzyEdit ** (distance - 1);
+  }
 
-    // Check exact matches first
-    for (const key of this.dictionary.exactMatches.keys()) {
-      if (key.startsWith(query) && suggestions.length < maxResults) {
-        suggestions.push(key);
+  /**
+   * Number of entries with the term in any gloss
+   */
+  private documentFrequency(term: string): number {
+    const entryIds = new Set<string>();
+    for (const index of [this.dictionary.exactMatches, this.dictionary.compoundWords, this.dictionary.descriptionOnly]) {
+      for (const result of index.get(term) ?? []) {
+        entryIds.add(result.entry.id);
       }
     }
+    return Math.max(1, entryIds.size);
+  }
 
-    // Then check compound words if we need more suggestions
-    if (suggestions.length < maxResults) {
-      for (const key of this.dictionary.compoundWords.keys()) {
-        if (key.startsWith(query) && !suggestions.includes(key) && suggestions.length < maxResults) {
-          suggestions.push(key);
-        }
+  /**
+   * Apply a score multiplier, recording it for --explain
+   */
+  private adjust(result: ScoredResult, factor: number, reason: string): ScoredResult {
+    return {
+      ...result,
+      score: Math.round(result.score * factor),
+      baseScore: result.baseScore ?? result.score,
+      adjustments: [...(result.adjustments ?? []), { reason, factor }]
+    };
+  }
+
+  private entriesForReading(reading: string, matchedTerm: string, score: number, matchType: MatchType): ScoredResult[] {
+    const results: ScoredResult[] = [];
+
+    for (const entryId of this.dictionary.readings.get(reading) || []) {
+      const entry = this.dictionary.entries.get(entryId);
+      if (entry) {
+        results.push({ entry, score, matchType, matchedTerm });
       }
     }
 
-    return suggestions.sort();
+    return results;
   }
 
   /**
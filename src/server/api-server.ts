@@ -0,0 +1,270 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import { type EnglishToKatakanaConverter } from '../converter.js';
+import { UserConfig, type ConfigKey } from '../config/user-config.js';
+import { type DictionaryManifest } from '../dictionary/downloader.js';
+import { ResultFilter } from '../search/result-filter.js';
+import { LanguageNames } from '../utils/language-names.js';
+import { silentLogger, type Logger } from '../utils/logger.js';
+import type { SearchOptions } from '../types.js';
+
+const MAX_BODY_BYTES = 1024 * 1024;
+const MAX_BATCH_TERMS = 10_000;
+
+export interface ApiServerOptions {
+  port: number;
+  host: string;
+  defaults: SearchOptions;              // Used for parameters a request leaves out
+  manifest: DictionaryManifest | null;  // Reported by /health
+  logger?: Logger;                      // Request log; defaults to no output
+}
+
+/**
+ * Error with the HTTP status to answer with
+ */
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+// Query string or JSON body parameters mapped to the config keys that validate them
+const PARAMETERS: Array<[string, ConfigKey, keyof SearchOptions]> = [
+  ['mode', 'mode', 'mode'],
+  ['fuzzy', 'fuzzy', 'fuzzy'],
+  ['max', 'max', 'maxResults'],
+  ['romajiStyle', 'romajiStyle', 'romajiStyle'],
+  ['joiner', 'joiner', 'joiner'],
+  ['style', 'style', 'style'],
+  ['width', 'width', 'width']
+];
+
+// Comma-separated tag lists (or JSON arrays in a batch body)
+const TAG_PARAMETERS: Array<[string, 'partOfSpeech' | 'field' | 'excludeMisc']> = [
+  ['pos', 'partOfSpeech'],
+  ['field', 'field'],
+  ['excludeMisc', 'excludeMisc']
+];
+
+/**
+ * JSON API over HTTP backed by a single initialized converter:
+ *   GET  /convert?q=&mode=&fuzzy=&max=&phrase=&origin=&wasei=&commonOnly=&pos=&field=&excludeMisc=&names=&style=&width=
+ *   GET  /reverse?q=&mode=&fuzzy=&max=
+ *   GET  /suggest?q=
+ *   POST /batch   {"terms": [...], "mode": ..., ...}
+ *   GET  /health
+ */
+export class ApiServer {
+  private server: Server | null = null;
+  private startedAt = new Date();
+  private logger: Logger;
+
+  constructor(private converter: EnglishToKatakanaConverter, private options: ApiServerOptions) {
+    this.logger = options.logger ?? silentLogger;
+  }
+
+  /**
+   * Start listening; resolves with the address once the port is bound
+   */
+  listen(): Promise<string> {
+    this.server = createServer((request, response) => {
+      const startTime = Date.now();
+      response.on('finish', () => {
+        this.logger.info(`${request.method} ${request.url} ${response.statusCode} ${Date.now() - startTime}ms`);
+      });
+      this.handle(request, response).catch(error => this.sendError(response, error));
+    });
+
+    return new Promise((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(this.options.port, this.options.host, () => {
+        this.startedAt = new Date();
+        resolve(`http://${this.options.host}:${this.options.port}`);
+      });
+    });
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.server) {
+        resolve();
+        return;
+      }
+      this.server.close(error => (error ? reject(error) : resolve()));
+      // Drop keep-alive connections so close() does not wait for them (Node 18.2 and later)
+      if (typeof this.server.closeAllConnections === 'function') {
+        this.server.closeAllConnections();
+      }
+    });
+  }
+
+  private async handle(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    const url = new URL(request.url ?? '/', 'http://localhost');
+    const route = `${request.method} ${url.pathname.replace(/\/+$/, '') || '/'}`;
+
+    switch (route) {
+      case 'GET /convert': {
+        const query = this.requireQuery(url.searchParams);
+        const options = this.parseOptions(Object.fromEntries(url.searchParams));
+        const results = await this.converter.convert(query, options);
+        this.sendJson(response, 200, { query, results });
+        return;
+      }
+      case 'GET /reverse': {
+        const query = this.requireQuery(url.searchParams);
+        const options = this.parseOptions(Object.fromEntries(url.searchParams));
+        try {
+          const results = await this.converter.reverse(query, options);
+          this.sendJson(response, 200, { query, results });
+        } catch (error) {
+          throw new HttpError(400, error instanceof Error ? error.message : String(error));
+        }
+        return;
+      }
+      case 'GET /suggest': {
+        const query = this.requireQuery(url.searchParams);
+        const suggestions = await this.converter.searchSuggestions(query);
+        const didYouMean = suggestions.length === 0 ? await this.converter.didYouMean(query) : [];
+        this.sendJson(response, 200, { query, suggestions, didYouMean });
+        return;
+      }
+      case 'POST /batch': {
+        const body = await this.readJsonBody(request);
+        const terms = body.terms;
+        if (!Array.isArray(terms) || !terms.every(term => typeof term === 'string')) {
+          throw new HttpError(400, 'Body must be a JSON object with a "terms" array of strings');
+        }
+        if (terms.length > MAX_BATCH_TERMS) {
+          throw new HttpError(413, `At most ${MAX_BATCH_TERMS} terms per batch`);
+        }
+        const results = await this.converter.convertBatch(terms, this.parseOptions(body));
+        this.sendJson(response, 200, { results });
+        return;
+      }
+      case 'GET /health': {
+        const stats = await this.converter.getDictionaryStats();
+        const { manifest } = this.options;
+        this.sendJson(response, 200, {
+          status: 'ok',
+          dictionary: {
+            entryCount: stats.entryCount,
+            version: manifest?.version ?? null,
+            dictDate: manifest?.dictDate ?? null,
+            installedAt: manifest?.installedAt ?? null,
+            indexedAt: stats.indexedAt.toISOString()
+          },
+          startedAt: this.startedAt.toISOString()
+        });
+        return;
+      }
+    }
+
+    const knownPaths = ['/convert', '/reverse', '/suggest', '/batch', '/health'];
+    if (knownPaths.includes(url.pathname)) {
+      throw new HttpError(405, `Method ${request.method} not allowed for ${url.pathname}`);
+    }
+    throw new HttpError(404, `Unknown endpoint ${url.pathname}`);
+  }
+
+  private requireQuery(params: URLSearchParams): string {
+    const query = params.get('q')?.trim();
+    if (!query) {
+      throw new HttpError(400, 'Missing required parameter "q"');
+    }
+    return query;
+  }
+
+  /**
+   * Search options from request parameters, validated like config values
+   */
+  private parseOptions(params: Record<string, unknown>): SearchOptions {
+    const options: SearchOptions = { ...this.options.defaults };
+
+    for (const [name, configKey, optionKey] of PARAMETERS) {
+      if (params[name] === undefined || params[name] === '') continue;
+      try {
+        (options as Record<string, unknown>)[optionKey] = UserConfig.parseValue(configKey, params[name]);
+      } catch (error) {
+        throw new HttpError(400, error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    if (params.phrase !== undefined) {
+      options.phrase = this.parseFlag(params.phrase);
+    }
+
+    if (params.names !== undefined) {
+      options.names = this.parseFlag(params.names);
+    }
+
+    if (params.wasei !== undefined) {
+      options.wasei = this.parseFlag(params.wasei);
+    }
+
+    if (params.commonOnly !== undefined) {
+      options.commonOnly = this.parseFlag(params.commonOnly);
+    }
+
+    for (const [name, optionKey] of TAG_PARAMETERS) {
+      const value = params[name];
+      if (value === undefined || value === '') continue;
+      (options as Record<string, unknown>)[optionKey] = Array.isArray(value)
+        ? value.map(String)
+        : ResultFilter.parseTags(String(value));
+    }
+
+    if (params.origin !== undefined && params.origin !== '') {
+      options.origin = LanguageNames.toCode(String(params.origin));
+      if (!options.origin) {
+        throw new HttpError(400, `Unknown language "${params.origin}"`);
+      }
+    }
+
+    return options;
+  }
+
+  private parseFlag(value: unknown): boolean {
+    return value === true || ['true', '1', 'yes', 'on'].includes(String(value));
+  }
+
+  private async readJsonBody(request: IncomingMessage): Promise<Record<string, unknown>> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    for await (const chunk of request) {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        throw new HttpError(413, `Request body is larger than ${MAX_BODY_BYTES} bytes`);
+      }
+      chunks.push(chunk);
+    }
+
+    try {
+      const body = JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+      if (body && typeof body === 'object' && !Array.isArray(body)) {
+        return body;
+      }
+    } catch {
+      // Reported below
+    }
+    throw new HttpError(400, 'Request body must be a JSON object');
+  }
+
+  private sendJson(response: ServerResponse, status: number, payload: unknown): void {
+    const body = JSON.stringify(payload);
+    response.writeHead(status, {
+      'Content-Type': 'application/json; charset=utf-8',
+      'Content-Length': Buffer.byteLength(body)
+    });
+    response.end(body);
+  }
+
+  private sendError(response: ServerResponse, error: unknown): void {
+    const status = error instanceof HttpError ? error.status : 500;
+    const message = error instanceof Error ? error.message : String(error);
+    if (response.headersSent) {
+      response.destroy();
+      return;
+    }
+    this.sendJson(response, status, { error: message });
+  }
+}
@@ -1,3 +1,6 @@
+import type { BKTree } from './search/bk-tree.js';
+import type { RankingStats } from './search/ranking.js';
+
 export interface KanjiElement {
   text: string;
   common?: boolean;
@@ -26,21 +29,46 @@ export interface Sense {
   field?: string[];
   misc?: string[];
   info?: string[];
-  languageSource?: Array<{
-    lang?: string;
-    type?: string;
-    wasei?: boolean;
-  }>;
+  languageSource?: LanguageSource[];
   dialect?: string[];
   antonym?: string[];
   see?: string[];
 }
 
+export interface LanguageSource {
+  lang?: string;      // ISO 639-2 code of the source language
+  full?: boolean;     // false when only part of the word comes from this language
+  wasei?: boolean;    // Coined in Japanese from foreign words (wasei-eigo for English)
+  text?: string | null;   // Source word, e.g. "Arbeit"
+}
+
 export interface JMDictEntry {
   id: string;
   kanji?: KanjiElement[];
   kana: KanaElement[];
   sense: Sense[];
+  glossary?: GlossaryDetails;   // Set on entries merged from the team glossary
+}
+
+export interface GlossaryDetails {
+  note?: string;
+  preferredOver?: string[];     // Spellings the glossary entry replaces
+}
+
+export interface NameTranslation {
+  type: string[];          // Name types such as "place", "surname", "company"
+  related?: string[][];
+  translation: Gloss[];
+}
+
+/**
+ * Entry of JMnedict, the proper-name dictionary
+ */
+export interface JMnedictEntry {
+  id: string;
+  kanji?: KanjiElement[];
+  kana: KanaElement[];
+  translation: NameTranslation[];
 }
 
 export interface ConversionResult {
@@ -50,8 +78,58 @@ export interface ConversionResult {
   romaji?: string;
   meaning: string;
   common: boolean;
+  score?: number;
+  matchType?: MatchType;
+  source?: ResultSource;
+  baseForm?: string;            // Set when an inflected query matched through its base form
+  segments?: PhraseSegment[];   // Parts of a phrase conversion
+  origin?: WordOrigin[];        // Source languages recorded in the dictionary
+  senses?: string[];            // English glosses of every sense, one string per sense
+  senseIndex?: number;          // Sense whose gloss matched; meaning shows this sense
+  matchedTerm?: string;         // Index key that matched the query
+  baseScore?: number;           // Score from the index before any adjustments
+  adjustments?: ScoreAdjustment[];
+  rankingFactors?: ScoreAdjustment[];   // Breakdown of baseScore, when explain is requested
+  nameTypes?: string[];         // Name dictionary results: place, surname, company, ...
+  note?: string;                // Glossary results: the team's note
+  preferredOver?: string[];     // Glossary results: spellings this one replaces
+  variants?: string[];          // Other spellings of the same word, e.g. コンピュータ for コンピューター
+}
+
+export interface ScoreAdjustment {
+  reason: string;       // e.g. 'inflected form of "computer"'
+  factor: number;       // Multiplier applied to the score
+}
+
+export interface WordOrigin {
+  lang: string;         // ISO 639-2 code, e.g. "ger"
+  text?: string;        // Source word, e.g. "Arbeit"
+  partial: boolean;     // Only part of the word comes from this language
+  wasei: boolean;       // Japanese coinage such as サラリーマン
+}
+
+export interface PhraseSegment {
+  text: string;                 // English word or dictionary phrase
+  result: ConversionResult;
+}
+
+export type PhraseJoiner = 'nakaguro' | 'space';
+
+export interface ReverseResult {
+  reading: string;
+  kanji?: string;
+  romaji?: string;
+  meanings: string[];   // English glosses, one string per sense
+  common: boolean;
+  score: number;
+  matchType: MatchType;
 }
 
+// names: from the JMnedict proper-name dictionary; glossary: from the team glossary
+export type ResultSource = 'dictionary' | 'names' | 'glossary' | 'generated';
+
+export type RomajiStyle = 'hepburn' | 'hepburn-doubled' | 'kunrei' | 'nihon';
+
 export type SearchMode = 'strict' | 'normal' | 'broad';
 
 export type MatchType = 'exact' | 'primary' | 'compound' | 'description';
@@ -61,6 +139,11 @@ export interface ScoredResult {
   score: number;  // 0-100
   matchType: MatchType;
   matchedTerm: string;
+  baseForm?: string;   // Base form looked up for an inflected query
+  senseIndex?: number;               // Sense whose gloss produced the match
+  baseScore?: number;                // Score before the adjustments below
+  adjustments?: ScoreAdjustment[];   // Penalties applied after the index lookup
+  rankingFactors?: ScoreAdjustment[];  // How the index computed baseScore from 100 (with explain)
 }
 
 export interface SearchOptions {
@@ -68,6 +151,34 @@ export interface SearchOptions {
   fuzzy?: boolean;
   maxResults?: number;
   verbose?: boolean;
+  transliterate?: TransliterationMode;
+  romajiStyle?: RomajiStyle;
+  phrase?: boolean;         // Convert multi-word input part by part
+  joiner?: PhraseJoiner;    // Separator between phrase parts (default: nakaguro)
+  origin?: string;          // Only entries from this source language (ISO 639-2, e.g. "ger")
+  wasei?: boolean;          // false leaves out wasei-eigo and other Japanese coinages
+  commonOnly?: boolean;     // Only readings marked common
+  partOfSpeech?: string[];  // JMDict part-of-speech tags, e.g. ["n", "vs"]
+  field?: string[];         // JMDict field tags, e.g. ["comp"]
+  excludeMisc?: string[];   // Leave out senses with these usage tags, e.g. ["arch", "obs"]
+  explain?: boolean;        // Attach the ranking factors behind each score
+  names?: boolean;          // Also search the proper-name dictionary (en-ka update --names)
+  style?: KatakanaStyleRule[];  // Spelling conventions that pick or rewrite the katakana
+  width?: TextWidth;        // Character width of the katakana in results (default: standard)
+}
+
+// standard: full-width kana and ASCII; half: half-width kana; full: full-width letters and digits too
+export type TextWidth = 'standard' | 'half' | 'full';
+
+// Style guide conventions, see KatakanaStyle
+export type KatakanaStyleRule = 'microsoft' | 'jis' | 'no-vu';
+
+// fallback: generate katakana only when the dictionary has no match
+export type TransliterationMode = 'fallback' | 'force' | 'off';
+
+export interface BatchResult {
+  term: string;
+  results: ConversionResult[];
 }
 
 export interface IndexedDictionary {
@@ -75,6 +186,10 @@ export interface IndexedDictionary {
   exactMatches: Map<string, ScoredResult[]>;      // Exact word matches
   compoundWords: Map<string, ScoredResult[]>;     // Words in compound phrases
   descriptionOnly: Map<string, ScoredResult[]>;   // Words only in descriptions
+  phrases: Map<string, ScoredResult[]>;           // Whole multi-word glosses
+  typoIndex: BKTree;                              // Keys of the word indexes, for typo-tolerant search
   katakanaWords: Set<string>;
+  readings: Map<string, string[]>;                // Kana readings (as katakana) to entry IDs
+  rankingStats: RankingStats;                     // Corpus statistics the scores were computed from
   lastUpdated: Date;
 }
\ No newline at end of file
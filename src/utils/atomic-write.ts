@@ -0,0 +1,24 @@
+import { existsSync, mkdirSync, renameSync, unlinkSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+
+/**
+ * Write a file by writing a temporary sibling and renaming it into place,
+ * so readers see either the old or the new content, never a partial file
+ */
+export function writeFileAtomic(path: string, data: string | Buffer): void {
+  const directory = dirname(path);
+  if (!existsSync(directory)) {
+    mkdirSync(directory, { recursive: true });
+  }
+
+  const tempPath = `${path}.${process.pid}.${Date.now()}.tmp`;
+  try {
+    writeFileSync(tempPath, data);
+    renameSync(tempPath, path);
+  } catch (error) {
+    if (existsSync(tempPath)) {
+      unlinkSync(tempPath);
+    }
+    throw error;
+  }
+}
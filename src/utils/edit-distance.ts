@@ -0,0 +1,92 @@
+/**
+ * String distance helpers for approximate matching
+ */
+export class EditDistance {
+  /**
+   * Levenshtein distance between two strings.
+   * Stops early and returns maxDistance + 1 once the distance is known to exceed maxDistance.
+   */
+  static levenshtein(a: string, b: string, maxDistance = Infinity): number {
+    if (a === b) return 0;
+    if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+    if (a.length === 0) return b.length;
+    if (b.length === 0) return a.length;
+
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+      let rowMinimum = i;
+
+      for (let j = 1; j <= b.length; j++) {
+        const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+        current[j] = Math.min(
+          previous[j] + 1,        // deletion
+          current[j - 1] + 1,     // insertion
+          previous[j - 1] + cost  // substitution
+        );
+        rowMinimum = Math.min(rowMinimum, current[j]);
+      }
+
+      if (rowMinimum > maxDistance) {
+        return maxDistance + 1;
+      }
+      previous = current;
+    }
+
+    return previous[b.length];
+  }
+
+  /**
+   * Damerau-Levenshtein distance: like Levenshtein, but swapping two adjacent
+   * characters ("databse" for "database") counts as a single edit.
+   * This is the unrestricted variant, which is a true metric and can back a BK-tree.
+   */
+  static damerauLevenshtein(a: string, b: string): number {
+    if (a === b) return 0;
+    if (a.length === 0) return b.length;
+    if (b.length === 0) return a.length;
+
+    // Matrix with an extra sentinel row and column, stored flat
+    const width = b.length + 2;
+    const infinity = a.length + b.length;
+    const d = new Int32Array((a.length + 2) * width);
+    const lastRowOf = new Map<string, number>();
+
+    d[0] = infinity;
+    for (let i = 0; i <= a.length; i++) {
+      d[(i + 1) * width] = infinity;
+      d[(i + 1) * width + 1] = i;
+    }
+    for (let j = 0; j <= b.length; j++) {
+      d[j + 1] = infinity;
+      d[width + j + 1] = j;
+    }
+
+    for (let i = 1; i <= a.length; i++) {
+      let lastMatchColumn = 0;
+
+      for (let j = 1; j <= b.length; j++) {
+        const previousRow = lastRowOf.get(b[j - 1]) ?? 0;
+        const previousColumn = lastMatchColumn;
+        let cost = 1;
+        if (a[i - 1] === b[j - 1]) {
+          cost = 0;
+          lastMatchColumn = j;
+        }
+
+        d[(i + 1) * width + j + 1] = Math.min(
+          d[i * width + j] + cost,                          // substitution
+          d[(i + 1) * width + j] + 1,                       // insertion
+          d[i * width + j + 1] + 1,                         // deletion
+          d[previousRow * width + previousColumn]           // transposition
+            + (i - previousRow - 1) + 1 + (j - previousColumn - 1)
+        );
+      }
+
+      lastRowOf.set(a[i - 1], i);
+    }
+
+    return d[(a.length + 1) * width + b.length + 1];
+  }
+}
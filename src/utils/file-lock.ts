@@ -0,0 +1,159 @@
+import { closeSync, existsSync, fstatSync, linkSync, mkdirSync, openSync, readFileSync, renameSync, statSync, unlinkSync, writeSync } from 'fs';
+import { dirname } from 'path';
+
+export interface FileLockOptions {
+  timeoutMs?: number;   // How long to wait for another holder
+  staleMs?: number;     // Age after which an abandoned lock is taken over
+  pollMs?: number;
+}
+
+/**
+ * Cross-process lock based on exclusively creating a lock file.
+ * Locks left behind by dead processes, or older than staleMs, are taken over.
+ */
+export class FileLock {
+  private held = false;
+
+  constructor(private lockPath: string, private options: FileLockOptions = {}) {}
+
+  async acquire(): Promise<void> {
+    const { timeoutMs = 120_000, pollMs = 250 } = this.options;
+    const deadline = Date.now() + timeoutMs;
+    const directory = dirname(this.lockPath);
+
+    if (!existsSync(directory)) {
+      mkdirSync(directory, { recursive: true });
+    }
+
+    while (!this.tryCreate()) {
+      const staleInode = this.findStaleLock();
+      if (staleInode !== null) {
+        this.breakLock(staleInode);
+        continue;
+      }
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out waiting for lock ${this.lockPath}; another en-ka process may be updating the dictionary`);
+      }
+      await new Promise(resolve => setTimeout(resolve, pollMs));
+    }
+
+    this.held = true;
+  }
+
+  release(): void {
+    if (this.held) {
+      this.removeLockFile();
+      this.held = false;
+    }
+  }
+
+  /**
+   * Run a task while holding the lock
+   */
+  async withLock<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  private tryCreate(): boolean {
+    try {
+      const fd = openSync(this.lockPath, 'wx');
+      writeSync(fd, JSON.stringify({ pid: process.pid, createdAt: Date.now() }));
+      closeSync(fd);
+      return true;
+    } catch (error) {
+      if (errorCode(error) === 'EEXIST') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Inode of the current lock file when it is stale, else null. A lock that cannot be
+   * parsed may still be being written by its holder, so only its age makes it stale.
+   */
+  private findStaleLock(): number | null {
+    const { staleMs = 10 * 60_000 } = this.options;
+
+    let fd: number;
+    try {
+      fd = openSync(this.lockPath, 'r');
+    } catch (error) {
+      if (errorCode(error) === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+
+    try {
+      // Stat and read through one descriptor so both describe the same lock file
+      const stats = fstatSync(fd);
+      let holder: { pid: number; createdAt: number };
+      try {
+        holder = JSON.parse(readFileSync(fd, 'utf-8'));
+      } catch {
+        return Date.now() - stats.mtimeMs > staleMs ? stats.ino : null;
+      }
+
+      if (Date.now() - holder.createdAt > staleMs) {
+        return stats.ino;
+      }
+      try {
+        // Signal 0 only checks whether the holder is still alive
+        process.kill(holder.pid, 0);
+        return null;
+      } catch (error) {
+        return errorCode(error) === 'ESRCH' ? stats.ino : null;
+      }
+    } finally {
+      closeSync(fd);
+    }
+  }
+
+  /**
+   * Remove the stale lock with the given inode. The lock is renamed aside first, which only
+   * one waiter can do; if another waiter already replaced it with a fresh lock, that lock
+   * is put back.
+   */
+  private breakLock(staleInode: number): void {
+    const asidePath = `${this.lockPath}.${process.pid}.stale`;
+    try {
+      renameSync(this.lockPath, asidePath);
+    } catch (error) {
+      if (errorCode(error) === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+
+    if (statSync(asidePath).ino !== staleInode) {
+      try {
+        linkSync(asidePath, this.lockPath);
+      } catch (error) {
+        if (errorCode(error) !== 'EEXIST') {
+          throw error;
+        }
+      }
+    }
+    unlinkSync(asidePath);
+  }
+
+  private removeLockFile(): void {
+    try {
+      unlinkSync(this.lockPath);
+    } catch (error) {
+      if (errorCode(error) !== 'ENOENT') {
+        throw error;
+      }
+    }
+  }
+}
+
+function errorCode(error: unknown): string | undefined {
+  return (error as { code?: string } | null)?.code;
+}
@@ -1,8 +1,24 @@
+import type { RomajiStyle, TextWidth } from '../types.js';
+
+// Full-width katakana and punctuation with a half-width form, in the order of U+FF61 to U+FF9D
+const FULL_WIDTH_KANA = '。「」、・ヲァィゥェォャュョッーアイウエオカキクケコサシスセソタチツテトナニヌネノハヒフヘホマミムメモヤユヨラリルレロワン';
+const HALF_WIDTH_KANA_START = 0xFF61;
+
+// Kana without a half-width form, written with the closest one
+const HALF_WIDTH_FALLBACKS: Record<string, string> = { 'ヮ': 'ﾜ', 'ヵ': 'ｶ', 'ヶ': 'ｹ', 'ヰ': 'ｲ', 'ヱ': 'ｴ' };
+
+const HALF_WIDTH_DAKUTEN = 'ﾞ';
+const HALF_WIDTH_HANDAKUTEN = 'ﾟ';
+
+// Offset between ASCII letters and digits and their full-width forms (A and Ａ)
+const FULL_WIDTH_OFFSET = 0xFEE0;
+
 /**
  * Utility class for Japanese text conversion operations
  */
 export class JapaneseConverter {
-  private static readonly KATAKANA_TO_ROMAJI_MAP: Record<string, string> = {
+  // Modified Hepburn; other systems override the entries that differ
+  private static readonly HEPBURN_MAP: Record<string, string> = {
     'ア': 'a', 'イ': 'i', 'ウ': 'u', 'エ': 'e', 'オ': 'o',
     'カ': 'ka', 'キ': 'ki', 'ク': 'ku', 'ケ': 'ke', 'コ': 'ko',
     'サ': 'sa', 'シ': 'shi', 'ス': 'su', 'セ': 'se', 'ソ': 'so',
@@ -12,23 +28,161 @@ export class JapaneseConverter {
     'マ': 'ma', 'ミ': 'mi', 'ム': 'mu', 'メ': 'me', 'モ': 'mo',
     'ヤ': 'ya', 'ユ': 'yu', 'ヨ': 'yo',
     'ラ': 'ra', 'リ': 'ri', 'ル': 'ru', 'レ': 're', 'ロ': 'ro',
-    'ワ': 'wa', 'ヲ': 'wo', 'ン': 'n',
+    'ワ': 'wa', 'ヰ': 'i', 'ヱ': 'e', 'ヲ': 'o', 'ン': 'n',
     'ガ': 'ga', 'ギ': 'gi', 'グ': 'gu', 'ゲ': 'ge', 'ゴ': 'go',
     'ザ': 'za', 'ジ': 'ji', 'ズ': 'zu', 'ゼ': 'ze', 'ゾ': 'zo',
     'ダ': 'da', 'ヂ': 'ji', 'ヅ': 'zu', 'デ': 'de', 'ド': 'do',
     'バ': 'ba', 'ビ': 'bi', 'ブ': 'bu', 'ベ': 'be', 'ボ': 'bo',
     'パ': 'pa', 'ピ': 'pi', 'プ': 'pu', 'ペ': 'pe', 'ポ': 'po',
-    'ー': '-', 'ッ': ''
+    'ヴ': 'vu',
+    // Small kana on their own
+    'ァ': 'a', 'ィ': 'i', 'ゥ': 'u', 'ェ': 'e', 'ォ': 'o',
+    'ャ': 'ya', 'ュ': 'yu', 'ョ': 'yo', 'ヮ': 'wa', 'ヵ': 'ka', 'ヶ': 'ke',
+    // Youon
+    'キャ': 'kya', 'キュ': 'kyu', 'キョ': 'kyo',
+    'シャ': 'sha', 'シュ': 'shu', 'ショ': 'sho',
+    'チャ': 'cha', 'チュ': 'chu', 'チョ': 'cho',
+    'ニャ': 'nya', 'ニュ': 'nyu', 'ニョ': 'nyo',
+    'ヒャ': 'hya', 'ヒュ': 'hyu', 'ヒョ': 'hyo',
+    'ミャ': 'mya', 'ミュ': 'myu', 'ミョ': 'myo',
+    'リャ': 'rya', 'リュ': 'ryu', 'リョ': 'ryo',
+    'ギャ': 'gya', 'ギュ': 'gyu', 'ギョ': 'gyo',
+    'ジャ': 'ja', 'ジュ': 'ju', 'ジョ': 'jo',
+    'ヂャ': 'ja', 'ヂュ': 'ju', 'ヂョ': 'jo',
+    'ビャ': 'bya', 'ビュ': 'byu', 'ビョ': 'byo',
+    'ピャ': 'pya', 'ピュ': 'pyu', 'ピョ': 'pyo',
+    // Foreign-sound combinations
+    'イェ': 'ye', 'ウィ': 'wi', 'ウェ': 'we', 'ウォ': 'wo',
+    'クァ': 'kwa', 'クィ': 'kwi', 'クェ': 'kwe', 'クォ': 'kwo', 'グァ': 'gwa',
+    'シェ': 'she', 'ジェ': 'je', 'チェ': 'che',
+    'スィ': 'si', 'ズィ': 'zi',
+    'ツァ': 'tsa', 'ツィ': 'tsi', 'ツェ': 'tse', 'ツォ': 'tso',
+    'ティ': 'ti', 'トゥ': 'tu', 'テュ': 'tyu',
+    'ディ': 'di', 'ドゥ': 'du', 'デュ': 'dyu',
+    'ファ': 'fa', 'フィ': 'fi', 'フェ': 'fe', 'フォ': 'fo', 'フュ': 'fyu',
+    'ヴァ': 'va', 'ヴィ': 'vi', 'ヴェ': 've', 'ヴォ': 'vo', 'ヴュ': 'vyu'
+  };
+
+  private static readonly KUNREI_OVERRIDES: Record<string, string> = {
+    'シ': 'si', 'チ': 'ti', 'ツ': 'tu', 'フ': 'hu', 'ジ': 'zi', 'ヂ': 'zi', 'ヅ': 'zu',
+    'シャ': 'sya', 'シュ': 'syu', 'ショ': 'syo',
+    'チャ': 'tya', 'チュ': 'tyu', 'チョ': 'tyo',
+    'ジャ': 'zya', 'ジュ': 'zyu', 'ジョ': 'zyo',
+    'ヂャ': 'zya', 'ヂュ': 'zyu', 'ヂョ': 'zyo',
+    'シェ': 'sye', 'ジェ': 'zye', 'チェ': 'tye',
+    'ツァ': 'tua', 'ツィ': 'tui', 'ツェ': 'tue', 'ツォ': 'tuo',
+    'ファ': 'hua', 'フィ': 'hui', 'フェ': 'hue', 'フォ': 'huo', 'フュ': 'hyu'
+  };
+
+  private static readonly NIHON_OVERRIDES: Record<string, string> = {
+    ...JapaneseConverter.KUNREI_OVERRIDES,
+    'ヂ': 'di', 'ヅ': 'du', 'ヂャ': 'dya', 'ヂュ': 'dyu', 'ヂョ': 'dyo',
+    'ヰ': 'wi', 'ヱ': 'we', 'ヲ': 'wo'
+  };
+
+  private static readonly LONG_VOWELS: Record<RomajiStyle, Record<string, string>> = {
+    'hepburn': { a: 'ā', i: 'ī', u: 'ū', e: 'ē', o: 'ō' },
+    'hepburn-doubled': { a: 'aa', i: 'ii', u: 'uu', e: 'ee', o: 'oo' },
+    'kunrei': { a: 'â', i: 'î', u: 'û', e: 'ê', o: 'ô' },
+    'nihon': { a: 'â', i: 'î', u: 'û', e: 'ê', o: 'ô' }
   };
 
   private static readonly VOWELS = new Set(['a', 'i', 'u', 'e', 'o']);
 
+  static readonly ROMAJI_STYLES: RomajiStyle[] = ['hepburn', 'hepburn-doubled', 'kunrei', 'nihon'];
+
+  static readonly TEXT_WIDTHS: TextWidth[] = ['standard', 'half', 'full'];
+
   /**
-   * Check if text contains only katakana characters
+   * Check if text contains only katakana characters, full- or half-width
    */
   static isKatakana(text: string): boolean {
     // eslint-disable-next-line no-misleading-character-class
-    return /^[\u30A0-\u30FF\u30FC\u3099\u309A]+$/.test(text);
+    return /^[\u30A0-\u30FF\u30FC\u3099\u309A\uFF65-\uFF9F]+$/.test(text);
+  }
+
+  /**
+   * Check if text contains only hiragana or katakana characters, full- or half-width
+   */
+  static isKana(text: string): boolean {
+    // eslint-disable-next-line no-misleading-character-class
+    return /^[\u3041-\u309F\u30A0-\u30FF\u30FC\u3099\u309A\uFF65-\uFF9F]+$/.test(text);
+  }
+
+  /**
+   * Normalize user input with NFKC: full-width letters and digits become ASCII and
+   * half-width katakana becomes full-width, with ｶﾞ combined into ガ
+   */
+  static normalizeWidth(text: string): string {
+    return text.normalize('NFKC');
+  }
+
+  /**
+   * Write text in one of the output widths:
+   *   standard  Full-width katakana and ASCII letters and digits, as in the dictionary
+   *   half      Half-width katakana (ｺﾝﾋﾟｭｰﾀｰ) and ASCII, as in JIS X 0201 systems
+   *   full      Full-width katakana, letters and digits (Ｅメール) for fixed-width layouts
+   */
+  static toWidth(text: string, width: TextWidth): string {
+    switch (width) {
+      case 'standard':
+        return this.toHalfWidthAlphanumerics(this.toFullWidthKatakana(text));
+      case 'half':
+        return this.toHalfWidthKatakana(this.toHalfWidthAlphanumerics(text));
+      case 'full':
+        return this.toFullWidthAlphanumerics(this.toFullWidthKatakana(text));
+    }
+  }
+
+  /**
+   * Convert full-width katakana to half-width. Voiced kana split into the base kana and
+   * a separate sound mark (ガ to ｶﾞ, パ to ﾊﾟ, ヴ to ｳﾞ).
+   */
+  static toHalfWidthKatakana(text: string): string {
+    return Array.from(text, char => {
+      const [base, mark] = char.normalize('NFD');
+      const half = this.halfWidthKana(base);
+      if (half === undefined) {
+        return char;
+      }
+      if (mark === '\u3099') return half + HALF_WIDTH_DAKUTEN;
+      if (mark === '\u309A') return half + HALF_WIDTH_HANDAKUTEN;
+      return mark === undefined ? half : char;
+    }).join('');
+  }
+
+  /**
+   * Convert half-width katakana to full-width, combining each sound mark with the kana
+   * before it (ｶﾞ to ガ). A mark that cannot combine becomes a spacing ゛ or ゜.
+   */
+  static toFullWidthKatakana(text: string): string {
+    // A full-width kana directly before a half-width mark combines with it too
+    return text.replace(/[\u30A1-\u30FA]?[\uFF61-\uFF9F]+/g, run => run
+      .normalize('NFKC')
+      .replace(/\u3099/g, '\u309B')
+      .replace(/\u309A/g, '\u309C'));
+  }
+
+  static toFullWidthAlphanumerics(text: string): string {
+    return text.replace(/[0-9A-Za-z]/g, char => String.fromCharCode(char.charCodeAt(0) + FULL_WIDTH_OFFSET));
+  }
+
+  static toHalfWidthAlphanumerics(text: string): string {
+    return text.replace(/[０-９Ａ-Ｚａ-ｚ]/g, char => String.fromCharCode(char.charCodeAt(0) - FULL_WIDTH_OFFSET));
+  }
+
+  private static halfWidthKana(char: string): string | undefined {
+    const position = FULL_WIDTH_KANA.indexOf(char);
+    return position >= 0 ? String.fromCharCode(HALF_WIDTH_KANA_START + position) : HALF_WIDTH_FALLBACKS[char];
+  }
+
+  /**
+   * Convert hiragana to katakana
+   */
+  static hiraganaToKatakana(hiragana: string): string {
+    return hiragana.replace(/[\u3041-\u3096]/g, (char) => {
+      return String.fromCharCode(char.charCodeAt(0) + 0x60);
+    });
   }
 
   /**
@@ -41,33 +195,83 @@ export class JapaneseConverter {
   }
 
   /**
-   * Convert katakana to romaji with proper handling of special characters
+   * Convert katakana (or hiragana) to romaji in the given romanization system.
+   * Handles youon, foreign-sound combinations, small tsu and the ー long vowel mark.
    */
-  static katakanaToRomaji(katakana: string): string {
-    let romaji = '';
+  static katakanaToRomaji(katakana: string, style: RomajiStyle = 'hepburn'): string {
+    const text = this.hiraganaToKatakana(katakana);
+    const syllables: string[] = [];
+    let geminate = false;
 
-    for (let i = 0; i < katakana.length; i++) {
-      const char = katakana[i];
-      const mapping = this.KATAKANA_TO_ROMAJI_MAP[char];
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
 
-      if (!mapping) {
-        romaji += char;
+      if (char === 'ッ') {
+        geminate = true;
         continue;
       }
 
-      // Handle small tsu (っ) - double next consonant
-      if (char === 'ッ' && i + 1 < katakana.length) {
-        const nextChar = katakana[i + 1];
-        const nextRomaji = this.KATAKANA_TO_ROMAJI_MAP[nextChar];
-
-        if (nextRomaji && !this.VOWELS.has(nextRomaji[0])) {
-          romaji += nextRomaji[0];
+      if (char === 'ー') {
+        if (syllables.length > 0) {
+          syllables[syllables.length - 1] = this.lengthenVowel(syllables[syllables.length - 1], style);
         }
+        continue;
+      }
+
+      if (char === '・') {
+        syllables.push(' ');
+        geminate = false;
+        continue;
+      }
+
+      // Prefer two-character combinations (キャ, ティ) over single kana
+      let romaji = this.lookupRomaji(text.slice(i, i + 2), style);
+      if (romaji) {
+        i++;
       } else {
-        romaji += mapping;
+        romaji = this.lookupRomaji(char, style) ?? char;
       }
+
+      if (geminate) {
+        romaji = this.doubleConsonant(romaji, style);
+        geminate = false;
+      }
+
+      // Separate syllabic n from a following vowel or y (kan'i, ten'yo)
+      if (syllables[syllables.length - 1] === 'n' && /^[aiueoy]/.test(romaji)) {
+        syllables[syllables.length - 1] = "n'";
+      }
+
+      syllables.push(romaji);
     }
 
-    return romaji;
+    return syllables.join('');
+  }
+
+  private static lookupRomaji(kana: string, style: RomajiStyle): string | undefined {
+    if (style === 'kunrei' && this.KUNREI_OVERRIDES[kana]) {
+      return this.KUNREI_OVERRIDES[kana];
+    }
+    if (style === 'nihon' && this.NIHON_OVERRIDES[kana]) {
+      return this.NIHON_OVERRIDES[kana];
+    }
+    return this.HEPBURN_MAP[kana];
+  }
+
+  private static lengthenVowel(syllable: string, style: RomajiStyle): string {
+    const lastChar = syllable[syllable.length - 1];
+    const longVowel = this.LONG_VOWELS[style][lastChar];
+    return longVowel ? syllable.slice(0, -1) + longVowel : syllable;
+  }
+
+  private static doubleConsonant(romaji: string, style: RomajiStyle): string {
+    if (!/^[a-z]/.test(romaji) || this.VOWELS.has(romaji[0])) {
+      return romaji;
+    }
+    // Hepburn writes っち as tchi
+    if (romaji.startsWith('ch') && style.startsWith('hepburn')) {
+      return 't' + romaji;
+    }
+    return romaji[0] + romaji;
   }
 }
\ No newline at end of file
@@ -0,0 +1,115 @@
+import type { KatakanaStyleRule } from '../types.js';
+
+// ヴ syllables and their バ行 spellings, longest first
+const VU_REPLACEMENTS: Array<[string, string]> = [
+  ['ヴァ', 'バ'], ['ヴィ', 'ビ'], ['ヴェ', 'ベ'], ['ヴォ', 'ボ'], ['ヴュ', 'ビュ'], ['ヴ', 'ブ']
+];
+
+// Consonant kana with the "a" vowel that -er, -or and -ar endings are written with, as in
+// コンピュータ and サーバ. A bare ア is a different sound: エンジニア, ビア.
+const ER_SOUND_ENDING = /[カガサザタダナハバパマヤラワャ]$/;
+
+// Small vowel kana, written full-size in some spellings: ソフトウェア and ソフトウエア
+const SMALL_VOWELS: Record<string, string> = { 'ァ': 'ア', 'ィ': 'イ', 'ゥ': 'ウ', 'ェ': 'エ', 'ォ': 'オ' };
+
+// Small kana that join the previous kana into one mora
+const SMALL_KANA = /[ァィゥェォャュョヮ]/g;
+
+const WORD_SEPARATOR = /([・\s]+)/;
+
+/**
+ * Katakana spelling conventions from localization style guides:
+ *
+ *   microsoft  Trailing ー for English -er, -or and -ar words (コンピューター, サーバー)
+ *   jis        JIS Z 8301: no trailing ー on words of three or more morae (コンピュータ, サーバ),
+ *              except established spellings such as サッカー
+ *   no-vu      ヴ written with バ行 kana (バイオリン for ヴァイオリン)
+ */
+export class KatakanaStyle {
+  static readonly RULES: KatakanaStyleRule[] = ['microsoft', 'jis', 'no-vu'];
+
+  /**
+   * Parse a comma-separated rule list such as "microsoft,no-vu"; "none" or nothing means no rules
+   */
+  static parse(value: string): KatakanaStyleRule[] {
+    const rules = value.split(',').map(rule => rule.trim()).filter(rule => rule.length > 0 && rule !== 'none');
+    for (const rule of rules) {
+      if (!this.RULES.includes(rule as KatakanaStyleRule)) {
+        throw new Error(`Unknown katakana style "${rule}". Valid styles are: ${this.RULES.join(', ')}`);
+      }
+    }
+    if (rules.includes('microsoft') && rules.includes('jis')) {
+      throw new Error('The microsoft and jis styles disagree on the trailing ー; choose one');
+    }
+    return [...new Set(rules)] as KatakanaStyleRule[];
+  }
+
+  /**
+   * Rewrite katakana to follow the rules. english is the word or phrase it renders; without
+   * it the microsoft rule cannot tell which words need ー, and the jis rule applies to every word.
+   * spellings are the dictionary's spellings of the same word: the microsoft rule adds ー when
+   * one of them has it, and the jis rule only drops ー when one of them lacks it.
+   */
+  static apply(katakana: string, rules: KatakanaStyleRule[], english?: string, spellings?: string[]): string {
+    if (rules.length === 0) {
+      return katakana;
+    }
+
+    const parts = katakana.split(WORD_SEPARATOR);
+    const words = parts.filter((_, position) => position % 2 === 0);
+    const englishWords = english?.toLowerCase().trim().split(/\s+/) ?? [];
+    // English words only line up with katakana words when there are as many of each
+    const englishFor = (index: number) => englishWords.length === words.length ? englishWords[index] : undefined;
+    const knownWords = spellings && new Set(spellings.flatMap(spelling => spelling.split(WORD_SEPARATOR)));
+
+    return parts
+      .map((part, position) => position % 2 === 0 ? this.applyToWord(part, rules, englishFor(position / 2), knownWords) : part)
+      .join('');
+  }
+
+  /**
+   * Spelling shared by orthographic variants: ヴ as バ行, small vowel kana full-size and no
+   * trailing ー, so コンピューター and コンピュータ, ヴァイオリン and バイオリン, or
+   * ソフトウェア and ソフトウエア have the same key
+   */
+  static variantKey(katakana: string): string {
+    return katakana
+      .split(WORD_SEPARATOR)
+      .map((part, position) => position % 2 === 0
+        ? this.replaceVu(part).replace(/[ァィゥェォ]/g, vowel => SMALL_VOWELS[vowel]).replace(/ー$/, '')
+        : part)
+      .join('');
+  }
+
+  private static applyToWord(word: string, rules: KatakanaStyleRule[], english?: string, knownWords?: Set<string>): string {
+    let styled = word;
+
+    if (rules.includes('no-vu')) {
+      styled = this.replaceVu(styled);
+    }
+
+    if (rules.includes('microsoft') && english && /(?:er|or|ar)$/.test(english) &&
+      (knownWords?.has(`${styled}ー`) || ER_SOUND_ENDING.test(styled))) {
+      styled += 'ー';
+    }
+
+    const shortened = styled.slice(0, -1);
+    if (rules.includes('jis') && styled.endsWith('ー') && this.countMorae(shortened) >= 3 &&
+      (!english || /(?:er|or|ar|y)$/.test(english)) && (!knownWords || knownWords.has(shortened))) {
+      styled = shortened;
+    }
+
+    return styled;
+  }
+
+  private static replaceVu(word: string): string {
+    return VU_REPLACEMENTS.reduce((text, [vu, replacement]) => text.split(vu).join(replacement), word);
+  }
+
+  /**
+   * Morae of a katakana word, counting ー and ッ and not small kana
+   */
+  private static countMorae(word: string): number {
+    return word.replace(SMALL_KANA, '').length;
+  }
+}
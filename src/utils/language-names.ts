@@ -0,0 +1,95 @@
+import type { WordOrigin } from '../types.js';
+
+// ISO 639-2 codes used in JMDict languageSource elements
+const LANGUAGE_NAMES: Record<string, string> = {
+  afr: 'Afrikaans',
+  ain: 'Ainu',
+  ara: 'Arabic',
+  bnt: 'Bantu',
+  chi: 'Chinese',
+  chn: 'Chinook Jargon',
+  cze: 'Czech',
+  dan: 'Danish',
+  dut: 'Dutch',
+  eng: 'English',
+  epo: 'Esperanto',
+  fil: 'Filipino',
+  fin: 'Finnish',
+  fre: 'French',
+  geo: 'Georgian',
+  ger: 'German',
+  glg: 'Galician',
+  grc: 'Ancient Greek',
+  gre: 'Greek',
+  haw: 'Hawaiian',
+  heb: 'Hebrew',
+  hin: 'Hindi',
+  hun: 'Hungarian',
+  ice: 'Icelandic',
+  ind: 'Indonesian',
+  ita: 'Italian',
+  khm: 'Khmer',
+  kor: 'Korean',
+  lat: 'Latin',
+  mal: 'Malayalam',
+  may: 'Malay',
+  mao: 'Maori',
+  mon: 'Mongolian',
+  nor: 'Norwegian',
+  per: 'Persian',
+  pol: 'Polish',
+  por: 'Portuguese',
+  rum: 'Romanian',
+  rus: 'Russian',
+  san: 'Sanskrit',
+  slo: 'Slovak',
+  som: 'Somali',
+  spa: 'Spanish',
+  swa: 'Swahili',
+  swe: 'Swedish',
+  tah: 'Tahitian',
+  tam: 'Tamil',
+  tha: 'Thai',
+  tib: 'Tibetan',
+  tur: 'Turkish',
+  ukr: 'Ukrainian',
+  urd: 'Urdu',
+  vie: 'Vietnamese',
+  yid: 'Yiddish'
+};
+
+/**
+ * Names for the language codes of word origins
+ */
+export class LanguageNames {
+  /**
+   * English name of a language code, or the code itself when unknown
+   */
+  static nameOf(code: string): string {
+    return LANGUAGE_NAMES[code] ?? code;
+  }
+
+  /**
+   * Accept a language code or its English name ("ger", "German") and return the code
+   */
+  static toCode(language: string): string | undefined {
+    const value = language.trim().toLowerCase();
+    if (/^[a-z]{3}$/.test(value)) {
+      return value;
+    }
+    return Object.keys(LANGUAGE_NAMES).find(code => LANGUAGE_NAMES[code].toLowerCase() === value);
+  }
+
+  /**
+   * Human-readable origin, e.g. "from German: Arbeit" or "wasei-eigo: salary man"
+   */
+  static describe(origin: WordOrigin): string {
+    const source = origin.text ? `: ${origin.text}` : '';
+    if (origin.wasei) {
+      return origin.lang === 'eng'
+        ? `wasei-eigo${source}`
+        : `wasei, from ${this.nameOf(origin.lang)}${source}`;
+    }
+    return `${origin.partial ? 'partly from' : 'from'} ${this.nameOf(origin.lang)}${source}`;
+  }
+}
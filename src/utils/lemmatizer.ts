@@ -0,0 +1,165 @@
+// Inflected forms that suffix rules cannot undo
+const IRREGULAR_FORMS: Record<string, string> = {
+  children: 'child',
+  men: 'man',
+  women: 'woman',
+  people: 'person',
+  mice: 'mouse',
+  feet: 'foot',
+  teeth: 'tooth',
+  geese: 'goose',
+  indices: 'index',
+  matrices: 'matrix',
+  vertices: 'vertex',
+  analyses: 'analysis',
+  criteria: 'criterion',
+  phenomena: 'phenomenon',
+  built: 'build',
+  bought: 'buy',
+  brought: 'bring',
+  caught: 'catch',
+  taught: 'teach',
+  thought: 'think',
+  made: 'make',
+  sent: 'send',
+  spent: 'spend',
+  sold: 'sell',
+  told: 'tell',
+  found: 'find',
+  held: 'hold',
+  kept: 'keep',
+  left: 'leave',
+  lost: 'lose',
+  paid: 'pay',
+  ran: 'run',
+  went: 'go',
+  gone: 'go',
+  got: 'get',
+  took: 'take',
+  taken: 'take',
+  gave: 'give',
+  given: 'give',
+  wrote: 'write',
+  written: 'write',
+  drove: 'drive',
+  driven: 'drive',
+  saw: 'see',
+  seen: 'see',
+  knew: 'know',
+  known: 'know',
+  began: 'begin',
+  begun: 'begin',
+  sang: 'sing',
+  sung: 'sing'
+};
+
+const VOWELS = 'aeiou';
+
+/**
+ * Rule-based English lemmatizer for plurals, -ing, -ed and possessives.
+ * Produces candidate base forms; the dictionary decides which one exists.
+ */
+export class Lemmatizer {
+  /**
+   * Candidate base forms of the last word of the text, most likely first.
+   * The text itself is never included.
+   */
+  static baseForms(text: string): string[] {
+    const normalized = text.toLowerCase().trim().replace(/’/g, "'");
+    const lastSpace = normalized.lastIndexOf(' ');
+    const prefix = normalized.slice(0, lastSpace + 1);
+    const word = normalized.slice(lastSpace + 1);
+
+    const candidates = new Set<string>();
+    for (const candidate of this.wordBaseForms(word)) {
+      if (candidate !== word && candidate.length >= 2) {
+        candidates.add(prefix + candidate);
+      }
+    }
+
+    return Array.from(candidates);
+  }
+
+  private static wordBaseForms(word: string): string[] {
+    // Possessives: "server's" and "servers'" both lead back to "server"
+    if (word.endsWith("'s")) {
+      const owner = word.slice(0, -2);
+      return [owner, ...this.wordBaseForms(owner)];
+    }
+    if (word.endsWith("s'")) {
+      const owner = word.slice(0, -1);
+      return [owner, ...this.wordBaseForms(owner)];
+    }
+
+    if (IRREGULAR_FORMS[word]) {
+      return [IRREGULAR_FORMS[word]];
+    }
+
+    if (word.endsWith('ing') && word.length > 4) {
+      return this.verbStemForms(word.slice(0, -3), 'ing');
+    }
+    if (word.endsWith('ed') && word.length > 3) {
+      return this.verbStemForms(word.slice(0, -2), 'ed');
+    }
+    if (word.endsWith('s') && word.length > 3) {
+      return this.pluralForms(word);
+    }
+
+    return [];
+  }
+
+  private static pluralForms(word: string): string[] {
+    // Words like "class", "status" and "analysis" are not plurals
+    if (/(ss|us|is)$/.test(word)) {
+      return [];
+    }
+
+    const forms: string[] = [];
+    if (word.endsWith('ies') && word.length > 4) {
+      forms.push(word.slice(0, -3) + 'y');
+    }
+    if (word.endsWith('ves')) {
+      forms.push(word.slice(0, -3) + 'f', word.slice(0, -3) + 'fe');
+    }
+
+    // "databases" drops only the s, "boxes" and "switches" also drop the e
+    forms.push(word.slice(0, -1));
+    if (/(s|x|z|ch|sh|o)es$/.test(word)) {
+      forms.push(word.slice(0, -2));
+    }
+
+    return forms;
+  }
+
+  /**
+   * Base forms for the stem left after removing -ing or -ed
+   */
+  private static verbStemForms(stem: string, suffix: 'ing' | 'ed'): string[] {
+    const forms: string[] = [];
+
+    if (suffix === 'ed' && stem.endsWith('i')) {
+      // "copied" → "copy"
+      forms.push(stem.slice(0, -1) + 'y');
+    }
+    if (suffix === 'ing' && stem.endsWith('y') && stem.length > 1 && !VOWELS.includes(stem[stem.length - 2])) {
+      // "lying" → "lie"
+      forms.push(stem.slice(0, -1) + 'ie');
+    }
+
+    // A single short syllable would have been doubled, so "coding" is "code", not "cod";
+    // otherwise the bare stem is more likely: "printed" → "print", "opening" → "open"
+    if (/^[^aeiou]*[aeiou][^aeiouwxy]$/.test(stem)) {
+      forms.push(stem + 'e', stem);
+    } else {
+      forms.push(stem, stem + 'e');
+    }
+
+    // "running" → "run", "stopped" → "stop"; tried last so "added" stays "add"
+    const last = stem[stem.length - 1];
+    if (stem.length > 2 && last === stem[stem.length - 2] && !VOWELS.includes(last) && !'lsz'.includes(last)) {
+      forms.push(stem.slice(0, -1));
+    }
+
+    return forms;
+  }
+}
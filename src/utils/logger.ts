@@ -0,0 +1,30 @@
+/**
+ * Destination for status messages from dictionary loading and downloads.
+ * The library is silent by default; the CLI passes consoleLogger.
+ */
+export interface Logger {
+  info(message: string): void;
+  warn(message: string): void;
+  progress?(receivedBytes: number, totalBytes: number | null): void;
+}
+
+export const silentLogger: Logger = {
+  info: () => {},
+  warn: () => {}
+};
+
+/**
+ * Writes to stderr so stdout stays free for results
+ */
+export const consoleLogger: Logger = {
+  info: message => console.error(message),
+  warn: message => console.error(message),
+  progress: (receivedBytes, totalBytes) => {
+    if (!process.stderr.isTTY) {
+      return;
+    }
+    const received = (receivedBytes / 1024 / 1024).toFixed(1);
+    const total = totalBytes ? ` / ${(totalBytes / 1024 / 1024).toFixed(1)}` : '';
+    process.stderr.write(`\r  ${received}${total} MB`);
+  }
+};
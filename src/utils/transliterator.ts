@@ -0,0 +1,524 @@
+interface Phoneme {
+  kind: 'consonant' | 'vowel' | 'sokuon';
+  value: string;
+}
+
+interface Reading {
+  phonemes: Phoneme[];
+  length: number;
+}
+
+/**
+ * Rule-based English to katakana transliteration for words missing from the dictionary.
+ *
+ * English spelling is first turned into a rough phoneme sequence (consonants, vowel
+ * sounds and geminate markers), which is then assembled into katakana morae.
+ * The result is a best guess, not an authoritative reading.
+ */
+export class Transliterator {
+  private static readonly VOWEL_KANA: Record<string, string> = {
+    'a': 'ア', 'i': 'イ', 'u': 'ウ', 'e': 'エ', 'o': 'オ'
+  };
+
+  private static readonly SYLLABLE_KANA: Record<string, Record<string, string>> = {
+    '': { a: 'ア', i: 'イ', u: 'ウ', e: 'エ', o: 'オ' },
+    'k': { a: 'カ', i: 'キ', u: 'ク', e: 'ケ', o: 'コ' },
+    'g': { a: 'ガ', i: 'ギ', u: 'グ', e: 'ゲ', o: 'ゴ' },
+    's': { a: 'サ', i: 'シ', u: 'ス', e: 'セ', o: 'ソ' },
+    'z': { a: 'ザ', i: 'ジ', u: 'ズ', e: 'ゼ', o: 'ゾ' },
+    't': { a: 'タ', i: 'ティ', u: 'トゥ', e: 'テ', o: 'ト' },
+    'd': { a: 'ダ', i: 'ディ', u: 'ドゥ', e: 'デ', o: 'ド' },
+    'n': { a: 'ナ', i: 'ニ', u: 'ヌ', e: 'ネ', o: 'ノ' },
+    'h': { a: 'ハ', i: 'ヒ', u: 'フ', e: 'ヘ', o: 'ホ' },
+    'b': { a: 'バ', i: 'ビ', u: 'ブ', e: 'ベ', o: 'ボ' },
+    'p': { a: 'パ', i: 'ピ', u: 'プ', e: 'ペ', o: 'ポ' },
+    'm': { a: 'マ', i: 'ミ', u: 'ム', e: 'メ', o: 'モ' },
+    'y': { a: 'ヤ', i: 'イ', u: 'ユ', e: 'イエ', o: 'ヨ' },
+    'r': { a: 'ラ', i: 'リ', u: 'ル', e: 'レ', o: 'ロ' },
+    'w': { a: 'ワ', i: 'ウィ', u: 'ウ', e: 'ウェ', o: 'ウォ' },
+    'f': { a: 'ファ', i: 'フィ', u: 'フ', e: 'フェ', o: 'フォ' },
+    'sh': { a: 'シャ', i: 'シ', u: 'シュ', e: 'シェ', o: 'ショ' },
+    'ch': { a: 'チャ', i: 'チ', u: 'チュ', e: 'チェ', o: 'チョ' },
+    'j': { a: 'ジャ', i: 'ジ', u: 'ジュ', e: 'ジェ', o: 'ジョ' },
+    'ts': { a: 'ツァ', i: 'ツィ', u: 'ツ', e: 'ツェ', o: 'ツォ' }
+  };
+
+  // Palatalized "yu" sound after a consonant (cube, new, pure)
+  private static readonly YU_KANA: Record<string, string> = {
+    '': 'ユ', 'k': 'キュ', 'g': 'ギュ', 's': 'シュ', 'z': 'ジュ', 't': 'テュ', 'd': 'デュ',
+    'n': 'ニュ', 'h': 'ヒュ', 'b': 'ビュ', 'p': 'ピュ', 'm': 'ミュ', 'y': 'ユ', 'r': 'ル',
+    'w': 'ウ', 'f': 'フュ', 'sh': 'シュ', 'ch': 'チュ', 'j': 'ジュ', 'ts': 'ツ'
+  };
+
+  // Consonants with no following vowel
+  private static readonly BARE_CONSONANT_KANA: Record<string, string> = {
+    'k': 'ク', 'g': 'グ', 's': 'ス', 'z': 'ズ', 't': 'ト', 'd': 'ド', 'n': 'ン', 'h': '',
+    'b': 'ブ', 'p': 'プ', 'm': 'ム', 'y': 'イ', 'r': 'ル', 'w': 'ウ', 'f': 'フ',
+    'sh': 'シュ', 'ch': 'チ', 'j': 'ジ', 'ts': 'ツ'
+  };
+
+  // Consonants that take a preceding small ッ when doubled or word-final after a short vowel
+  private static readonly GEMINATING = new Set(['k', 't', 'p', 'ch', 'sh', 'j']);
+
+  // Second halves of compounds that start with h, where a preceding t is not part of th (github)
+  private static readonly H_COMPOUND_PARTS = /^h(ub|ouse|ood|ead|old|ome|ook|ost)/;
+
+  // Characters that spell something other than a sound, so a guess would lose them (C++, C#)
+  private static readonly UNSPELLABLE = /[+#&@*=%$<>^~|\\]/;
+
+  /**
+   * Transliterate English text into a best-guess katakana rendering
+   */
+  static transliterate(text: string): string {
+    const lower = text.toLowerCase();
+    // Without letters there is nothing to read
+    if (!/[a-z]/.test(lower) || this.UNSPELLABLE.test(lower)) {
+      return '';
+    }
+    return lower
+      .split(/[\s\-_/.]+/)
+      .map(word => word.replace(/[^a-z0-9]/g, ''))
+      .filter(word => word.length > 0)
+      .map(word => this.transliterateWord(word))
+      .join('・');
+  }
+
+  private static transliterateWord(word: string): string {
+    return word
+      .split(/(\d+)/)
+      .filter(part => part.length > 0)
+      .map(part => /^\d+$/.test(part) ? part : this.toKatakana(this.toPhonemes(part)))
+      .join('');
+  }
+
+  /**
+   * Turn an English spelling into a rough phoneme sequence
+   */
+  private static toPhonemes(word: string): Phoneme[] {
+    const silentE = this.hasSilentFinalE(word);
+    const end = silentE ? word.length - 1 : word.length;
+    const innerSilentE = this.innerSilentEs(word);
+    const phonemes: Phoneme[] = [];
+    let syllable = 0;
+    let i = 0;
+
+    while (i < end) {
+      if (innerSilentE.has(i)) {
+        i++;
+        continue;
+      }
+      const reading = this.isVowelAt(word, i)
+        ? this.readVowel(word, i, end, silentE, syllable++, innerSilentE)
+        : this.readConsonant(word, i, end);
+      phonemes.push(...reading.phonemes);
+      i += reading.length;
+    }
+
+    return phonemes;
+  }
+
+  private static readVowel(word: string, start: number, end: number, silentE: boolean, syllable: number, innerSilentE: Set<number>): Reading {
+    let groupEnd = start;
+    while (groupEnd < end && this.isVowelAt(word, groupEnd)) {
+      groupEnd++;
+    }
+    // Vowel-like w closes a group (saw, new, window)
+    if (word[groupEnd] === 'w' && !this.isVowelAt(word, groupEnd + 1)) {
+      groupEnd++;
+    }
+    // "igh" as in night, light
+    if (word.startsWith('igh', start) && groupEnd === start + 1) {
+      return this.vowel('ai', 3);
+    }
+
+    const group = word.slice(start, groupEnd);
+    const length = groupEnd - start;
+    const atEnd = groupEnd >= end;
+    const next = word[groupEnd];
+    const afterNext = word[groupEnd + 1];
+    const isFinalSyllable = !word.slice(groupEnd, end).split('').some((_, offset) => this.isVowelAt(word, groupEnd + offset));
+
+    // R-colored vowels: r not followed by a vowel
+    if (length === 1 && next === 'r' && afterNext !== 'r' && (groupEnd + 1 >= end || !this.isVowelAt(word, groupEnd + 1))) {
+      const rFinal = groupEnd + 1 >= end;
+
+      if (rFinal && silentE && end === word.length - 1) {
+        const withE: Record<string, string> = { a: 'ea', e: 'ia', i: 'aia', o: 'oa', u: 'yua', y: 'aia' };
+        return this.vowel(withE[group], 2);
+      }
+
+      switch (group) {
+        case 'a':
+          return this.vowel('aa', 2);
+        case 'o':
+          return this.vowel(rFinal && syllable > 0 ? 'aa' : 'oo', 2);
+        default:
+          return this.vowel(syllable === 0 || rFinal ? 'aa' : 'a', 2);
+      }
+    }
+
+    // Long vowel before r: gear, beer, pier
+    if (/^(ea|ee|ie)$/.test(group) && next === 'r' && !this.isVowelAt(word, groupEnd + 1)) {
+      return this.vowel('ia', 3);
+    }
+
+    if (length > 1) {
+      return this.vowel(this.vowelDigraph(group, word, start, atEnd), length);
+    }
+
+    // Magic e: a single vowel + single consonant + silent e is long
+    const magic = ((silentE && isFinalSyllable && end - groupEnd === 1) || innerSilentE.has(groupEnd + 1)) &&
+      this.isMagicEContext(word, groupEnd, syllable);
+    const consonantRun = this.consonantRunLength(word, groupEnd, end);
+    const closed = !atEnd && (consonantRun > 1 || groupEnd + consonantRun >= end);
+    const previous = word[start - 1] ?? '';
+
+    // Stressed open first syllables of two-syllable words are long (data, paper, python, cyber)
+    if (syllable === 0 && previous !== 'w' && this.isOpenFirstSyllable(word, group, groupEnd)) {
+      return this.vowel(group === 'y' ? 'ai' : 'ee', 1);
+    }
+
+    switch (group) {
+      case 'a':
+        return this.vowel(magic ? 'ei' : 'a', 1);
+      case 'e':
+        // Greek-style plural endings are read with i (diabetes, kubernetes)
+        if (syllable >= 2 && word.slice(groupEnd) === 's' && /[td]/.test(previous)) {
+          return this.vowel('i', 1);
+        }
+        return this.vowel(magic || (atEnd && syllable === 0) ? 'ii' : 'e', 1);
+      case 'i':
+        return this.vowel(magic ? 'ai' : 'i', 1);
+      case 'o':
+        return this.vowel(magic || (atEnd && syllable === 0) ? 'oo' : 'o', 1);
+      case 'u':
+        if (magic) {
+          return this.vowel(/[rljh]/.test(previous) ? 'uu' : 'yuu', 1);
+        }
+        if (closed) {
+          return this.vowel('a', 1);
+        }
+        return this.vowel(/[pmfc]/.test(previous) ? 'yuu' : 'u', 1);
+      case 'y':
+        if (atEnd) {
+          return this.vowel(syllable === 0 ? 'ai' : 'ii', 1);
+        }
+        return this.vowel(magic ? 'ai' : 'i', 1);
+      default:
+        return this.vowel(group, 1);
+    }
+  }
+
+  private static vowelDigraph(group: string, word: string, start: number, atEnd: boolean): string {
+    const previous = word[start - 1] ?? '';
+
+    switch (group.slice(0, 2)) {
+      case 'ee':
+      case 'ea':
+        return 'ii';
+      case 'ie':
+        return atEnd && start <= 1 ? 'ai' : 'ii';
+      case 'oo':
+        return 'uu';
+      case 'ou':
+        return 'au';
+      case 'ow':
+        return atEnd ? 'ou' : 'au';
+      case 'au':
+      case 'aw':
+      case 'oa':
+        return 'oo';
+      case 'ai':
+      case 'ay':
+      case 'ei':
+        return 'ei';
+      case 'ey':
+        return atEnd ? 'ii' : 'ei';
+      case 'oi':
+      case 'oy':
+        return 'oi';
+      case 'ue':
+      case 'ew':
+        return /[rlj]/.test(previous) ? 'uu' : 'yuu';
+      case 'ui':
+        return /[bg]/.test(previous) ? 'i' : 'uu';
+      case 'eu':
+        return 'yuu';
+      default:
+        // Unknown combinations are read vowel by vowel
+        return group.replace(/w$/, 'u');
+    }
+  }
+
+  private static readConsonant(word: string, i: number, end: number): Reading {
+    const rest = word.slice(i, end);
+    const next = word[i + 1] ?? '';
+    const isStart = i === 0;
+    const afterShortVowel = i > 0 && this.isVowelAt(word, i - 1) && !this.isVowelAt(word, i - 2);
+
+    if (rest.startsWith('tion')) {
+      return { phonemes: [this.consonantPhoneme('sh'), this.vowelPhoneme('o')], length: 3 };
+    }
+    if (rest.startsWith('sion')) {
+      const sound = this.isVowelAt(word, i - 1) ? 'j' : 'sh';
+      return { phonemes: [this.consonantPhoneme(sound), this.vowelPhoneme('o')], length: 3 };
+    }
+    if (word.startsWith('tch', i) || word.startsWith('dge', i)) {
+      return this.consonants(rest.startsWith('tch') ? 'ch' : 'j', rest.startsWith('tch') ? 3 : 2, true);
+    }
+    if (rest.startsWith('sch')) {
+      return this.consonants(['s', 'k'], 3);
+    }
+    if (rest.startsWith('chr')) {
+      return this.consonants(['k', 'r'], 3);
+    }
+    if (isStart && /^(kn|gn|wr)/.test(rest)) {
+      return this.consonants(rest[1] === 'r' ? 'r' : 'n', 2);
+    }
+
+    switch (rest.slice(0, 2)) {
+      case 'ch':
+        return this.consonants('ch', 2);
+      case 'sh':
+        return this.consonants('sh', 2, afterShortVowel && i + 2 >= word.length);
+      case 'ph':
+        return this.consonants('f', 2);
+      case 'th':
+        // t ending one part of a compound and h starting the next: git + hub
+        if (i > 0 && this.H_COMPOUND_PARTS.test(word.slice(i + 1))) {
+          return this.consonants('t', 1, afterShortVowel);
+        }
+        return this.consonants('s', 2);
+      case 'wh':
+        return this.consonants('w', 2);
+      case 'ck':
+        return this.consonants('k', 2, true);
+      case 'qu':
+        return this.consonants(['k', 'w'], 2);
+      case 'gh':
+        return isStart ? this.consonants('g', 2) : this.consonants([], 2);
+      case 'gn':
+        if (i + 2 >= end) {
+          return this.consonants('n', 2);
+        }
+        break;
+      case 'mb':
+        if (i + 2 >= end) {
+          return this.consonants('m', 2);
+        }
+        break;
+      case 'cc':
+        return /[eiy]/.test(word[i + 2] ?? '') ? this.consonants(['k', 's'], 2) : this.consonants('k', 2, true);
+    }
+
+    const char = word[i];
+
+    // Doubled consonants read once; stops geminate after a short vowel
+    if (next === char) {
+      const sound = this.letterSound(word, i + 1);
+      return this.consonants(sound, 2, afterShortVowel && this.GEMINATING.has(sound));
+    }
+
+    if (char === 'x') {
+      return this.consonants(isStart ? ['z'] : ['k', 's'], 1, !isStart && afterShortVowel && i + 1 >= word.length);
+    }
+
+    const sound = this.letterSound(word, i);
+    const wordFinal = i + 1 >= word.length;
+    return this.consonants(sound, 1, wordFinal && afterShortVowel && this.GEMINATING.has(sound) && i > 1);
+  }
+
+  private static letterSound(word: string, i: number): string {
+    const char = word[i];
+    const next = word[i + 1] ?? '';
+
+    switch (char) {
+      case 'c':
+        return /[eiy]/.test(next) ? 's' : 'k';
+      case 'g':
+        if (/[ey]/.test(next) || (next === 'i' && i > 0)) {
+          return 'j';
+        }
+        return 'g';
+      case 'l':
+        return 'r';
+      case 'v':
+        return 'b';
+      case 'q':
+        return 'k';
+      default:
+        return char;
+    }
+  }
+
+  /**
+   * Assemble katakana morae from the phoneme sequence
+   */
+  private static toKatakana(phonemes: Phoneme[]): string {
+    let katakana = '';
+
+    for (let i = 0; i < phonemes.length; i++) {
+      const phoneme = phonemes[i];
+      const next = phonemes[i + 1];
+
+      if (phoneme.kind === 'sokuon') {
+        if (next?.kind === 'consonant' && next.value !== 'n' && next.value !== 'm') {
+          katakana += 'ッ';
+        }
+        continue;
+      }
+
+      if (phoneme.kind === 'vowel') {
+        katakana += this.syllable('', phoneme.value);
+        continue;
+      }
+
+      const consonant = phoneme.value;
+
+      if (next?.kind === 'vowel') {
+        katakana += this.syllable(consonant, next.value);
+        i++;
+      } else if (consonant === 'm' && next?.kind === 'consonant' && /^[bpm]$/.test(next.value)) {
+        katakana += 'ン';
+      } else if (consonant === 'n' && !phonemes.slice(0, i).some(previous => previous.kind === 'vowel')) {
+        // ン only follows a vowel; an n before any vowel is read ヌ (npm, nginx)
+        katakana += 'ヌ';
+      } else {
+        katakana += this.BARE_CONSONANT_KANA[consonant] ?? '';
+      }
+    }
+
+    return katakana;
+  }
+
+  /**
+   * Render one consonant with a vowel sound; trailing vowel letters become ー or plain vowels
+   */
+  private static syllable(consonant: string, vowel: string): string {
+    let head: string;
+    let rest: string;
+
+    if (vowel.startsWith('yu')) {
+      head = this.YU_KANA[consonant] ?? this.YU_KANA[''];
+      rest = vowel.slice(2);
+      let tail = '';
+      let previous = 'u';
+      for (const char of rest) {
+        tail += char === previous ? 'ー' : this.VOWEL_KANA[char] ?? '';
+        previous = char;
+      }
+      return head + tail;
+    }
+
+    const row = this.SYLLABLE_KANA[consonant] ?? this.SYLLABLE_KANA[''];
+    head = row[vowel[0]] ?? '';
+    rest = vowel.slice(1);
+
+    let tail = '';
+    let previous = vowel[0];
+    for (const char of rest) {
+      tail += char === previous ? 'ー' : this.VOWEL_KANA[char] ?? '';
+      previous = char;
+    }
+
+    return head + tail;
+  }
+
+  private static hasSilentFinalE(word: string): boolean {
+    if (word.length < 3 || !word.endsWith('e')) {
+      return false;
+    }
+    const beforeE = word.length - 2;
+    if (this.isVowelAt(word, beforeE)) {
+      return false;
+    }
+    for (let i = 0; i < beforeE; i++) {
+      if (this.isVowelAt(word, i)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Silent e inside a compound whose first part ends in one (type + script, life + style,
+   * time + stamp): vowel, consonant, e, then s and another consonant
+   */
+  private static innerSilentEs(word: string): Set<number> {
+    const positions = new Set<number>();
+    for (let i = 2; i < word.length - 2; i++) {
+      if (word[i] === 'e' && /[aiouy]/.test(word[i - 2]) && this.isVowelAt(word, i - 2) && !this.isVowelAt(word, i - 3) &&
+        !this.isVowelAt(word, i - 1) && word[i - 1] !== 'r' && word[i + 1] === 's' && !this.isVowelAt(word, i + 2)) {
+        positions.add(i);
+      }
+    }
+    return positions;
+  }
+
+  /**
+   * A first-syllable a or y before one consonant sound and a final -er or -on (y only),
+   * or a in -ta (data)
+   */
+  private static isOpenFirstSyllable(word: string, group: string, groupEnd: number): boolean {
+    if (group !== 'a' && group !== 'y') {
+      return false;
+    }
+    const consonantLength = /^(th|ph|ch|sh)/.test(word.slice(groupEnd)) ? 2 : 1;
+    if (this.consonantRunLength(word, groupEnd, word.length) !== consonantLength) {
+      return false;
+    }
+    const tail = word.slice(groupEnd + consonantLength);
+    return tail === 'er' || (group === 'y' && tail === 'on') || (group === 'a' && consonantLength === 1 && word[groupEnd] === 't' && tail === 'a');
+  }
+
+  private static isMagicEContext(word: string, consonantIndex: number, syllable: number): boolean {
+    const consonant = word[consonantIndex];
+    // Unstressed -ive and -ine endings stay short (native, engine, machine)
+    if (syllable > 0 && (consonant === 'v' || consonant === 'n')) {
+      return false;
+    }
+    return true;
+  }
+
+  private static consonantRunLength(word: string, start: number, end: number): number {
+    let length = 0;
+    while (start + length < end && !this.isVowelAt(word, start + length)) {
+      length++;
+    }
+    return length;
+  }
+
+  private static isVowelAt(word: string, i: number): boolean {
+    if (i < 0 || i >= word.length) {
+      return false;
+    }
+    const char = word[i];
+    if ('aeiou'.includes(char)) {
+      return true;
+    }
+    // y is a vowel unless it starts the word or precedes a vowel
+    const next = word[i + 1];
+    return char === 'y' && i > 0 && (next === undefined || !'aeiou'.includes(next));
+  }
+
+  private static vowel(value: string, length: number): Reading {
+    return { phonemes: [this.vowelPhoneme(value)], length };
+  }
+
+  private static consonants(sounds: string | string[], length: number, geminate = false): Reading {
+    const values = Array.isArray(sounds) ? sounds : [sounds];
+    const phonemes = values.map(value => this.consonantPhoneme(value));
+    if (geminate && phonemes.length > 0) {
+      phonemes.unshift({ kind: 'sokuon', value: '' });
+    }
+    return { phonemes, length };
+  }
+
+  private static consonantPhoneme(value: string): Phoneme {
+    return { kind: 'consonant', value };
+  }
+
+  private static vowelPhoneme(value: string): Phoneme {
+    return { kind: 'vowel', value };
+  }
+}